@@ -1,39 +1,105 @@
 #!/usr/bin/env bun
-import { Command, Option } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import chalk from "chalk";
 import ora from "ora";
-import { validateTestSuiteFile } from "./schema/test";
-import { runBenchmark } from "./core/runner";
-import { readFileSync } from "node:fs";
+import { loadSuite } from "./schema/test";
+import { lintSuite, printLintReport } from "./schema/lint";
+import {
+  describeSelection,
+  parseWhere,
+  selectTests,
+  type SuiteSelection,
+} from "./schema/select";
+import { runBenchmark, type RunOutput } from "./core/runner";
+import { planRun } from "./core/plan";
+import { readRunMeta } from "./core/journal";
+import { checkTemplates } from "./core/templates";
+import { parseExtractSteps, type ExtractStep } from "./eval/extract";
+import { loadScoringConfig } from "./scoring/aggregator";
+import { JudgeConfigSchema, type JudgeConfig } from "./eval/strategies/judge";
+import {
+  aliasMismatches,
+  loadModelsConfig,
+  resolveModel,
+  resolveModels,
+} from "./config/models";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { existsSync } from "node:fs";
-import { basename, resolve } from "node:path";
+import { basename, join, relative, resolve } from "node:path";
 import { printRunSummary } from "./reporting/summary";
+import { printRunPlan } from "./reporting/plan";
+import { renderRunReportHtml } from "./reporting/html";
+import {
+  EXPORT_FILES,
+  EXPORT_FORMATS,
+  parseExportFormats,
+  renderExport,
+  type ExportFormat,
+} from "./reporting/export";
+import {
+  checkBaseline,
+  checkScoreGates,
+  parseFailUnder,
+  printGateResults,
+  type ScoreGate,
+} from "./reporting/gates";
+import { loadRunReport, scanRunReports } from "./reporting/load";
+import {
+  buildLeaderboard,
+  printLeaderboard,
+  renderLeaderboardMarkdown,
+  type LeaderboardMode,
+} from "./reporting/leaderboard";
+import {
+  auditJudges,
+  loadGoldLabels,
+  printJudgeAudit,
+  renderJudgeAuditMarkdown,
+} from "./reporting/judge-audit";
+import {
+  compareRuns,
+  printComparison,
+  renderComparisonMarkdown,
+} from "./reporting/compare";
+import {
+  CACHE_MODES,
+  cacheStats,
+  pruneCache,
+  type CacheMode,
+} from "./core/cache";
 import { SingleBar, Presets } from "cli-progress";
 
+const DEFAULT_CACHE_DIR = ".cache/responses";
+
 const program = new Command();
 
 program.name("bench").description("Māori LLM Benchmark CLI").version("0.1.0");
 
 program
   .command("validate")
-  .description("Validate the JSON test suite at ./tests.json")
-  .action(async () => {
-    const spinner = ora("Validating test suite").start();
+  .description("Validate JSON test suites (default ./tests.json)")
+  .option("--suite <paths...>", "Suite files or directories of .json suites", [
+    "tests.json",
+  ])
+  .option("--fix", "Apply safe fixes (e.g. drop redundant variants) in place")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(["text", "json"])
+      .default("text")
+  )
+  .action((opts: { suite: string[]; fix?: boolean; format: string }) => {
     try {
-      const suitePath = resolve(process.cwd(), "tests.json");
-      const { ok, errors, count } = await validateTestSuiteFile(suitePath);
-      if (!ok) {
-        spinner.fail(`Validation failed with ${errors.length} error(s):`);
-        for (const err of errors) {
-          console.error(` - ${chalk.red(err.path.join("."))}: ${err.message}`);
-        }
-        process.exitCode = 1;
-        return;
+      const report = lintSuite(opts.suite, { fix: opts.fix });
+      if (opts.format === "json") {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printLintReport(report);
       }
-      spinner.succeed(`Validation passed (${count} tests).`);
+      if (report.errors) process.exitCode = 1;
     } catch (error) {
-      spinner.fail("Validation error");
-      console.error(error);
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error))
+      );
       process.exitCode = 1;
     }
   });
@@ -41,13 +107,42 @@ program
 program
   .command("run")
   .description(
-    "Run the benchmark suite at ./tests.json against one or more models"
+    "Run test suites (default ./tests.json) against one or more models"
   )
-  .addOption(
-    new Option(
-      "-m, --models <list>",
-      "Comma-separated model names or provider ids"
-    ).makeOptionMandatory(true)
+  .option("--suite <paths...>", "Suite files or directories of .json suites", [
+    "tests.json",
+  ])
+  .option(
+    "--task <name>",
+    "Only tests of this task (repeatable, or comma-separated)",
+    collect,
+    []
+  )
+  .option(
+    "--id <glob>",
+    "Only test ids matching this glob (repeatable)",
+    collect,
+    []
+  )
+  .option(
+    "--where <key=value>",
+    "Only tests whose metadata key has this value (repeatable)",
+    collect,
+    []
+  )
+  .option(
+    "--sample <n>",
+    "Run a random subset of n tests (after filters)",
+    integerOption(1)
+  )
+  .option(
+    "--seed <n>",
+    "Seed for --sample (default: random, recorded)",
+    integerOption(0)
+  )
+  .option(
+    "-m, --models <list>",
+    "Comma-separated model names or provider ids (required unless --resume)"
   )
   .option(
     "-c, --concurrency <n>",
@@ -66,52 +161,197 @@ program
     "Output directory for results (default: ./results)",
     "results"
   )
+  .option(
+    "--judge <model>",
+    "Model name or provider id used for llm-judge tests",
+    "openai/o3"
+  )
+  .option(
+    "--judge-config <path>",
+    "JSON file with suite-wide judge settings (model, rubric, scale, categories)"
+  )
   .option("--retries <n>", "Retries on 429/5xx", (v) => Number(v), 2)
+  .option(
+    "--breaker <n>",
+    "Pause a model after n consecutive failed calls (0: never)",
+    (v) => Number(v),
+    5
+  )
   .option(
     "--timeout-ms <n>",
     "Per-request timeout (ms)",
     (v) => Number(v),
     30000
   )
+  .addOption(
+    new Option("--cache <mode>", "Response cache mode")
+      .choices(CACHE_MODES)
+      .default("read-write")
+  )
+  .option("--cache-dir <dir>", "Response cache directory", DEFAULT_CACHE_DIR)
+  .option(
+    "--scoring <path>",
+    "Task categories and weights for the 0–100 score",
+    "scoring.config.json"
+  )
+  .option(
+    "--samples <n>",
+    "Calls per (model, test); reports mean, sd, pass@k and 95% CIs",
+    (v) => Number(v),
+    1
+  )
+  .option(
+    "--pass-threshold <n>",
+    "Sample score counted as a pass for pass@k (0..1)",
+    (v) => Number(v),
+    1
+  )
+  .option(
+    "--templates <names>",
+    "Run every test under each prompt template (comma-separated, e.g. default,mi-strict)"
+  )
+  .option(
+    "--extract <steps>",
+    "Answer extraction for tests without `extract` (comma-separated steps, or none)"
+  )
+  .option(
+    "--stream",
+    "Stream model replies to record time to first token and throughput"
+  )
+  .option(
+    "--budget-usd <n>",
+    "Stop scheduling calls once this run has cost this much (needs model pricing)",
+    (v) => Number(v)
+  )
+  .option(
+    "--budget-tokens <n>",
+    "Stop scheduling calls once this run has used this many tokens",
+    (v) => Number(v)
+  )
+  .option(
+    "--resume <runDir>",
+    "Continue an interrupted run, skipping tests that already succeeded"
+  )
+  .option("--retry-errors", "With --resume, also re-run tests that errored")
+  .option(
+    "--dry-run",
+    "Print the model × test matrix with call, token, cost and time estimates; make no calls"
+  )
+  .option(
+    "--format <formats>",
+    `Also export per-test results (comma-separated: ${EXPORT_FORMATS.join(
+      ", "
+    )})`
+  )
+  .option(
+    "--fail-under <pct>",
+    "Exit with code 3 if a model scores below pct (0–100), or task=pct for one task (repeatable)",
+    collect,
+    []
+  )
+  .option(
+    "--baseline <runDir>",
+    "Exit with code 3 if a model's score on the tests shared with this run dropped"
+  )
+  .option(
+    "--max-drop <points>",
+    "With --baseline, allowed drop in score points",
+    (v) => Number(v),
+    0
+  )
+  .option(
+    "--allow-suite-mismatch",
+    "With --baseline, compare even if the suite content hashes differ"
+  )
   .action(async (opts) => {
     const spinner = ora("Starting benchmark run").start();
     try {
-      const suitePath = resolve(process.cwd(), "tests.json");
-      const suiteStr = readFileSync(suitePath, "utf8");
-      const suiteJson = JSON.parse(suiteStr);
+      let ci: CiOptions;
+      try {
+        ci = parseCiOptions(opts);
+      } catch (error) {
+        spinner.fail(error instanceof Error ? error.message : String(error));
+        process.exitCode = 1;
+        return;
+      }
+      const resumeDir = opts.resume
+        ? resolve(process.cwd(), opts.resume)
+        : undefined;
+      const meta = resumeDir ? readRunMeta(resumeDir) : undefined;
+      if (resumeDir && !meta) {
+        spinner.fail(`No resumable run found at ${resumeDir}`);
+        process.exitCode = 1;
+        return;
+      }
+      if (!opts.models && !meta) {
+        spinner.fail("Provide --models (or --resume <runDir>)");
+        process.exitCode = 1;
+        return;
+      }
+      // One journal and report per set of models
+      if (opts.models && meta) {
+        spinner.fail(
+          `--resume keeps the models the run started with (${meta.models
+            .map((m) => m.name)
+            .join(", ")}); drop --models`
+        );
+        process.exitCode = 1;
+        return;
+      }
 
-      // Validate before running
-      const validation = await validateTestSuiteFile(suitePath);
-      if (!validation.ok) {
+      // A resumed run reloads the suite files and filters it started with
+      const suitePaths = meta
+        ? meta.suitePaths ?? [meta.suitePath]
+        : (opts.suite as string[]);
+      let loaded: ReturnType<typeof loadSuite>;
+      try {
+        loaded = loadSuite(suitePaths);
+      } catch (error) {
         spinner.fail(
-          "Suite validation failed. Use `bench validate` for details."
+          `${
+            error instanceof Error ? error.message : String(error)
+          }. Use \`bench validate\` for details.`
         );
         process.exitCode = 1;
         return;
       }
+      const selection: SuiteSelection = meta
+        ? meta.selection ?? {}
+        : {
+            tasks: (opts.task as string[]).flatMap((t) => t.split(",")),
+            ids: opts.id as string[],
+            where: parseWhere(opts.where as string[]),
+            sample: opts.sample,
+            seed:
+              opts.sample !== undefined
+                ? opts.seed ?? Math.floor(Math.random() * 2 ** 31)
+                : undefined,
+          };
+      const absSuitePaths = suitePaths.map((p) => resolve(process.cwd(), p));
+      const suite = selectTests(loaded.tests, selection);
+      if (suite.length === 0) {
+        spinner.fail(`No tests match: ${describeSelection(selection)}`);
+        process.exitCode = 1;
+        return;
+      }
 
       const modelConfigPath = resolve(
         process.cwd(),
         opts.modelConfig ?? "models.config.json"
       );
-      const modelsCsv: string = opts.models as string;
-      const requestedModels = modelsCsv
-        .split(",")
-        .map((s) => s.trim())
-        .filter(Boolean);
-      let modelsConfig: unknown[] = [];
-      if (existsSync(modelConfigPath)) {
-        try {
-          modelsConfig = JSON.parse(
-            readFileSync(modelConfigPath, "utf8")
-          ) as unknown[];
-        } catch (err) {
-          // ignore parse error; we'll proceed with direct ids
-        }
-      }
+      const modelsConfig = loadModelsConfig(modelConfigPath);
 
       spinner.text = "Resolving models";
-      const resolvedModels = resolveModels(requestedModels, modelsConfig);
+      // A resumed run keeps the models it was started with
+      const resolvedModels = meta
+        ? meta.models
+        : resolveModels(
+            (opts.models as string)
+              .split(",")
+              .map((s) => s.trim())
+              .filter(Boolean),
+            modelsConfig
+          );
       if (resolvedModels.length === 0) {
         spinner.fail(
           "No models resolved. Provide --models or a valid models.config.json"
@@ -120,7 +360,88 @@ program
         return;
       }
 
-      const total = resolvedModels.length * suiteJson.length;
+      // A resumed run keeps its templates and extraction too
+      const templates: string[] | undefined = meta
+        ? meta.templates
+        : (opts.templates as string | undefined)
+            ?.split(",")
+            .map((s) => s.trim())
+            .filter(Boolean);
+      let extract: ExtractStep[] | undefined;
+      try {
+        extract = meta
+          ? meta.extract
+          : opts.extract !== undefined
+          ? parseExtractSteps(opts.extract)
+          : undefined;
+        if (templates?.length) {
+          checkTemplates(suite, resolvedModels, templates, loaded.templates);
+        }
+      } catch (error) {
+        spinner.fail(error instanceof Error ? error.message : String(error));
+        process.exitCode = 1;
+        return;
+      }
+
+      if (opts.budgetUsd !== undefined) {
+        const unpriced = resolvedModels.filter((m) => !m.pricing);
+        if (unpriced.length) {
+          spinner.warn(
+            `No pricing in ${basename(modelConfigPath)} for ${unpriced
+              .map((m) => m.name)
+              .join(", ")}; their calls do not count toward --budget-usd`
+          );
+          spinner.start();
+        }
+      }
+
+      const judge = meta?.judge ?? resolveModel(opts.judge, modelsConfig);
+      const judgeConfig =
+        meta?.judgeConfig ?? loadJudgeConfig(opts.judgeConfig);
+      const maxRequestsPerMinute = Number(
+        opts.maxRpm ??
+          opts["max-rpm"] ??
+          opts["maxRPM"] ??
+          opts["maxRequestsPerMinute"] ??
+          opts["max-requests-per-minute"] ??
+          60
+      );
+      const maxTokensPerMinute = Number(
+        opts.maxTpm ?? opts["max-tpm"] ?? 120000
+      );
+      const resume = resumeDir
+        ? { runDir: resumeDir, retryErrors: Boolean(opts.retryErrors) }
+        : undefined;
+
+      if (opts.dryRun) {
+        spinner.stop();
+        const plan = planRun({
+          suite,
+          models: resolvedModels,
+          judge,
+          judgeConfig,
+          modelCatalog: modelsConfig,
+          concurrency: Number(opts.concurrency),
+          maxRequestsPerMinute,
+          maxTokensPerMinute,
+          samples: meta?.samples ?? opts.samples,
+          templates,
+          suiteTemplates: loaded.templates,
+          resume,
+        });
+        printRunPlan(plan);
+        for (const m of aliasMismatches(modelsConfig)) {
+          ora().warn(
+            `${basename(modelConfigPath)}: "${m.name}" points to ${
+              m.provider_id
+            }, which looks like a different model`
+          );
+        }
+        return;
+      }
+
+      const total =
+        resolvedModels.length * suite.length * (templates?.length || 1);
       spinner.stop();
       const bar = new SingleBar(
         {
@@ -133,29 +454,83 @@ program
       );
       bar.start(total, 0);
 
+      // First Ctrl-C stops scheduling and writes a partial report;
+      // a second one exits immediately.
+      const controller = new AbortController();
+      const onSigint = () => {
+        if (controller.signal.aborted) process.exit(130);
+        controller.abort();
+        bar.stop();
+        console.error(
+          chalk.yellow(
+            "\nInterrupted: waiting for in-flight requests, then writing a partial report (Ctrl-C again to quit now)"
+          )
+        );
+      };
+      process.on("SIGINT", onSigint);
+
       const run = await runBenchmark({
-        suite: suiteJson,
-        suitePath,
+        suite,
+        suitePath: absSuitePaths.join(", "),
+        suitePaths: absSuitePaths,
+        suiteInfo: {
+          name: loaded.name,
+          version: loaded.version,
+          hash: loaded.hash,
+        },
+        selection,
         models: resolvedModels,
+        judge,
+        judgeConfig,
+        modelCatalog: modelsConfig,
         concurrency: Number(opts.concurrency),
-        maxRequestsPerMinute: Number(
-          opts.maxRpm ??
-            opts["max-rpm"] ??
-            opts["maxRPM"] ??
-            opts["maxRequestsPerMinute"] ??
-            opts["max-requests-per-minute"] ??
-            60
-        ),
-        maxTokensPerMinute: Number(opts.maxTpm ?? opts["max-tpm"] ?? 120000),
+        maxRequestsPerMinute,
+        maxTokensPerMinute,
+        scoring: loadScoringConfig(resolve(process.cwd(), opts.scoring)),
+        samples: meta?.samples ?? opts.samples,
+        passThreshold: meta?.passThreshold ?? opts.passThreshold,
+        templates,
+        suiteTemplates: loaded.templates,
+        extract,
+        // Streaming changes no results, so a resumed run may switch it
+        stream: opts.stream ?? meta?.stream,
+        budget:
+          opts.budgetUsd !== undefined || opts.budgetTokens !== undefined
+            ? { usd: opts.budgetUsd, tokens: opts.budgetTokens }
+            : undefined,
         retries: Number(opts.retries),
+        breakerFailures: Number(opts.breaker),
         timeoutMs: Number(opts.timeoutMs ?? opts["timeout-ms"] ?? 30000),
         outDir: resolve(process.cwd(), opts.out ?? "results"),
+        cache: {
+          dir: resolve(process.cwd(), opts.cacheDir),
+          mode: opts.cache as CacheMode,
+        },
+        resume,
+        signal: controller.signal,
         onProgress: ({ completed }) => bar.update(completed),
-      });
+      }).finally(() => process.off("SIGINT", onSigint));
       bar.stop();
-      ora().succeed(`Run complete: ${chalk.cyan(basename(run.runDir))}`);
+      if (run.status === "partial") {
+        const reached = run.budget?.reached;
+        ora().warn(
+          `Run partial${
+            reached ? ` (--budget-${reached} reached)` : ""
+          }: ${chalk.cyan(basename(run.runDir))}`
+        );
+        console.log(
+          `Resume with: bench run --resume ${relative(
+            process.cwd(),
+            run.runDir
+          )}`
+        );
+        process.exitCode = reached ? 2 : 130;
+      } else {
+        ora().succeed(`Run complete: ${chalk.cyan(basename(run.runDir))}`);
+      }
       // Print a short summary to stdout
       printRunSummary(run);
+      applyCiOptions(run, run.runDir, ci);
     } catch (error) {
       try {
         ora().fail("Run failed");
@@ -172,7 +547,34 @@ program
     "-r, --run <dir>",
     "Path to the run directory (e.g., results/<run-id>)"
   )
-  .action(async (opts: { run: string }) => {
+  .option("--html", "Also (re)write report.html in the run directory")
+  .option(
+    "--format <formats>",
+    `Also export per-test results (comma-separated: ${EXPORT_FORMATS.join(
+      ", "
+    )})`
+  )
+  .option(
+    "--fail-under <pct>",
+    "Exit with code 3 if a model scores below pct (0–100), or task=pct for one task (repeatable)",
+    collect,
+    []
+  )
+  .option(
+    "--baseline <runDir>",
+    "Exit with code 3 if a model's score on the tests shared with this run dropped"
+  )
+  .option(
+    "--max-drop <points>",
+    "With --baseline, allowed drop in score points",
+    (v) => Number(v),
+    0
+  )
+  .option(
+    "--allow-suite-mismatch",
+    "With --baseline, compare even if the suite content hashes differ"
+  )
+  .action(async (opts: { run: string; html?: boolean } & CiFlags) => {
     const runDir = resolve(process.cwd(), opts.run);
     const reportPath = resolve(runDir, "report.json");
     if (!existsSync(reportPath)) {
@@ -180,41 +582,314 @@ program
       process.exitCode = 1;
       return;
     }
-    const report = JSON.parse(readFileSync(reportPath, "utf8"));
-    printRunSummary(report);
+    try {
+      const ci = parseCiOptions(opts);
+      const report = JSON.parse(readFileSync(reportPath, "utf8"));
+      printRunSummary(report);
+      if (opts.html) {
+        const htmlPath = join(runDir, "report.html");
+        writeFileSync(htmlPath, renderRunReportHtml(report), "utf8");
+        console.log(`Wrote ${relative(process.cwd(), htmlPath)}`);
+      }
+      applyCiOptions(report, runDir, ci);
+    } catch (error) {
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error))
+      );
+      process.exitCode = 1;
+    }
   });
 
-program.parseAsync();
+program
+  .command("compare")
+  .description(
+    "Compare runs against the first one, matching results by (model, test)"
+  )
+  .argument("<runs...>", "Two or more run directories (first is the baseline)")
+  .option(
+    "--threshold <n>",
+    "Ignore per-test score changes up to this size (0..1)",
+    (v) => Number(v),
+    0
+  )
+  .option("--limit <n>", "Max tests listed per section", (v) => Number(v), 20)
+  .option(
+    "--allow-suite-mismatch",
+    "Compare runs even if their suite content hashes differ"
+  )
+  .option("--out <file>", "Also write the comparison as markdown")
+  .action(
+    (
+      runDirs: string[],
+      opts: {
+        threshold: number;
+        limit: number;
+        out?: string;
+        allowSuiteMismatch?: boolean;
+      }
+    ) => {
+      try {
+        const runs = runDirs.map((d) => loadRunReport(d));
+        const diffs = compareRuns(runs, {
+          threshold: opts.threshold,
+          allowSuiteMismatch: opts.allowSuiteMismatch,
+        });
+        printComparison(diffs, { limit: opts.limit });
+        if (opts.out) {
+          const outPath = resolve(process.cwd(), opts.out);
+          writeFileSync(outPath, renderComparisonMarkdown(diffs), "utf8");
+          console.log(`\nWrote ${outPath}`);
+        }
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exitCode = 1;
+      }
+    }
+  );
 
-type ModelConfig = {
-  name: string;
-  provider_id: string;
-  reasoning_effort?: number;
-  params?: Record<string, unknown>;
-};
+program
+  .command("judge-audit")
+  .description(
+    "Measure llm-judge agreement with human gold labels, per judge and task"
+  )
+  .requiredOption(
+    "--gold <file>",
+    "Gold labels (JSON array or JSONL of { testId, model?, response?, score })"
+  )
+  .requiredOption("--run <dirs...>", "Run directories with llm-judge results")
+  .option(
+    "--threshold <n>",
+    "Score at or above which an answer counts as a pass (0..1)",
+    (v) => Number(v),
+    0.5
+  )
+  .option("--out <file>", "Also write the audit as markdown")
+  .action(
+    (opts: {
+      gold: string;
+      run: string[];
+      threshold: number;
+      out?: string;
+    }) => {
+      try {
+        const runs = opts.run.map((d) => loadRunReport(d));
+        const audit = auditJudges(runs, loadGoldLabels(opts.gold), {
+          threshold: opts.threshold,
+        });
+        printJudgeAudit(audit);
+        if (opts.out) {
+          const outPath = resolve(process.cwd(), opts.out);
+          writeFileSync(outPath, renderJudgeAuditMarkdown(audit), "utf8");
+          console.log(`\nWrote ${outPath}`);
+        }
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exitCode = 1;
+      }
+    }
+  );
 
-function resolveModels(
-  requested: string[],
-  modelsConfig: unknown[]
-): { name: string; provider_id: string; params?: Record<string, unknown> }[] {
-  const list: ModelConfig[] = Array.isArray(modelsConfig)
-    ? (modelsConfig.filter(
-        (m): m is ModelConfig =>
-          !!m &&
-          typeof m === "object" &&
-          "provider_id" in m &&
-          typeof (m as any).provider_id === "string"
-      ) as ModelConfig[])
-    : [];
-  return requested.map((r) => {
-    const hit = list.find((m) => m.name === r || m.provider_id === r);
-    if (hit) {
-      return {
-        name: hit.name ?? hit.provider_id,
-        provider_id: hit.provider_id,
-        params: hit.params,
-      };
+program
+  .command("leaderboard")
+  .description(
+    "Rank models across runs in results/, one board per suite version"
+  )
+  .option("--results <dir>", "Directory holding run directories", "results")
+  .addOption(
+    new Option("--mode <mode>", "Which run counts per model")
+      .choices(["latest", "best"])
+      .default("latest")
+  )
+  .option(
+    "--suite <hash>",
+    "Only the board whose selection hash starts with this"
+  )
+  .option(
+    "--out <dir>",
+    "Where to write leaderboard.json and leaderboard.md (default: --results)"
+  )
+  .action(
+    (opts: {
+      results: string;
+      mode: LeaderboardMode;
+      suite?: string;
+      out?: string;
+    }) => {
+      const reports = scanRunReports(opts.results);
+      const lb = buildLeaderboard(reports, { mode: opts.mode });
+      if (opts.suite) {
+        lb.suites = lb.suites.filter((s) =>
+          s.selectionHash.startsWith(opts.suite!)
+        );
+      }
+      if (lb.suites.length === 0) {
+        console.error(chalk.red(`No completed runs found in ${opts.results}`));
+        process.exitCode = 1;
+        return;
+      }
+      printLeaderboard(lb);
+      const outDir = resolve(process.cwd(), opts.out ?? opts.results);
+      mkdirSync(outDir, { recursive: true });
+      writeFileSync(
+        join(outDir, "leaderboard.json"),
+        JSON.stringify(lb, null, 2),
+        "utf8"
+      );
+      writeFileSync(
+        join(outDir, "leaderboard.md"),
+        renderLeaderboardMarkdown(lb),
+        "utf8"
+      );
+      console.log(`\nWrote ${join(outDir, "leaderboard.json")}`);
+    }
+  );
+
+const cache = program
+  .command("cache")
+  .description("Inspect or prune the response cache");
+
+cache
+  .command("stats")
+  .description("Show response cache size and entries per model")
+  .option("--cache-dir <dir>", "Response cache directory", DEFAULT_CACHE_DIR)
+  .action((opts: { cacheDir: string }) => {
+    const stats = cacheStats(resolve(process.cwd(), opts.cacheDir));
+    console.log(chalk.bold(`Cache ${stats.dir}`));
+    console.log(`Entries: ${stats.entries}`);
+    console.log(`Size: ${(stats.bytes / 1024).toFixed(1)} KiB`);
+    if (stats.oldest) console.log(`Oldest: ${stats.oldest}`);
+    if (stats.newest) console.log(`Newest: ${stats.newest}`);
+    const models = Object.entries(stats.byModel).sort((a, b) => b[1] - a[1]);
+    if (models.length) console.log("By model:");
+    for (const [model, n] of models) {
+      console.log(`  - ${chalk.cyan(model)}: ${n}`);
     }
-    return { name: r, provider_id: r };
   });
+
+cache
+  .command("prune")
+  .description("Delete cache entries by age and/or model")
+  .option("--cache-dir <dir>", "Response cache directory", DEFAULT_CACHE_DIR)
+  .option(
+    "--older-than <days>",
+    "Only entries older than this many days",
+    (v) => Number(v)
+  )
+  .option("--model <id>", "Only entries for this provider model id")
+  .option("--all", "Delete every entry")
+  .action(
+    (opts: {
+      cacheDir: string;
+      olderThan?: number;
+      model?: string;
+      all?: boolean;
+    }) => {
+      if (!opts.all && opts.olderThan === undefined && !opts.model) {
+        console.error(
+          chalk.red("Specify --older-than <days>, --model <id> or --all")
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const { removed, bytes } = pruneCache(
+        resolve(process.cwd(), opts.cacheDir),
+        opts
+      );
+      console.log(
+        `Removed ${removed} entries (${(bytes / 1024).toFixed(1)} KiB)`
+      );
+    }
+  );
+
+program.parseAsync();
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Whole numbers of at least `min`; anything else is a usage error
+function integerOption(min: number): (value: string) => number {
+  return (value) => {
+    const n = Number(value);
+    if (!value.trim() || !Number.isSafeInteger(n) || n < min) {
+      throw new InvalidArgumentError(`Expected a whole number >= ${min}.`);
+    }
+    return n;
+  };
+}
+
+type CiFlags = {
+  format?: string;
+  failUnder: string[];
+  baseline?: string;
+  maxDrop: number;
+  allowSuiteMismatch?: boolean;
+};
+
+type CiOptions = {
+  formats: ExportFormat[];
+  gates: ScoreGate[];
+  baseline?: RunOutput;
+  maxDrop: number;
+  allowSuiteMismatch?: boolean;
+};
+
+// Checked before a run starts, so a typo does not waste one
+function parseCiOptions(opts: CiFlags): CiOptions {
+  if (!Number.isFinite(opts.maxDrop) || opts.maxDrop < 0) {
+    throw new Error("--max-drop must be a number of points >= 0");
+  }
+  return {
+    formats: opts.format ? parseExportFormats(opts.format) : [],
+    gates: parseFailUnder(opts.failUnder),
+    baseline: opts.baseline ? loadRunReport(opts.baseline) : undefined,
+    maxDrop: opts.maxDrop,
+    allowSuiteMismatch: opts.allowSuiteMismatch,
+  };
+}
+
+// Writes the exports into the run directory, then checks the gates; a
+// failed gate exits with 3 unless the run already set a code
+function applyCiOptions(run: RunOutput, runDir: string, ci: CiOptions): void {
+  for (const format of ci.formats) {
+    const outPath = join(runDir, EXPORT_FILES[format]);
+    writeFileSync(outPath, renderExport(run, format), "utf8");
+    console.log(`Wrote ${relative(process.cwd(), outPath)}`);
+  }
+  const results = [
+    ...checkScoreGates(run, ci.gates),
+    ...(ci.baseline
+      ? checkBaseline(run, ci.baseline, {
+          maxDrop: ci.maxDrop,
+          allowSuiteMismatch: ci.allowSuiteMismatch,
+        })
+      : []),
+  ];
+  printGateResults(results);
+  const failed = results.filter((r) => !r.passed).length;
+  if (failed) {
+    console.error(chalk.red(`${failed} gate check(s) failed`));
+    process.exitCode ||= 3;
+  }
+}
+
+function loadJudgeConfig(path?: string): JudgeConfig | undefined {
+  if (!path) return undefined;
+  const filePath = resolve(process.cwd(), path);
+  const res = JudgeConfigSchema.safeParse(
+    JSON.parse(readFileSync(filePath, "utf8"))
+  );
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new Error(
+      `Invalid judge config ${filePath}: ${issue?.path.join(".")} ${
+        issue?.message
+      }`
+    );
+  }
+  return res.data;
 }
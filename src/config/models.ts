@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { existsSync, readFileSync } from "node:fs";
+import { ProviderConfigSchema, type ProviderConfig } from "../providers";
+import { TemplateMapSchema, type TemplateMap } from "../core/templates";
+import { PricingSchema, type Pricing } from "../scoring/cost";
+import { RateLimitsSchema, type RateLimits } from "../core/throttle";
+
+export const ModelConfigSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    provider_id: z.string().min(1),
+    provider: ProviderConfigSchema.optional(),
+    reasoning_effort: z.union([z.number(), z.string()]).optional(),
+    params: z.record(z.unknown()).optional(),
+    // Prompt templates for this model only; override suite/built-in ones
+    templates: TemplateMapSchema.optional(),
+    // USD per million input/output tokens, for cost reports and --budget-usd
+    pricing: PricingSchema.optional(),
+    // Own RPM/TPM/concurrency limits; default to --max-rpm/--max-tpm/--concurrency
+    limits: RateLimitsSchema.optional(),
+  })
+  .passthrough();
+
+export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+
+export type ModelSpec = {
+  name: string;
+  provider_id: string;
+  provider?: ProviderConfig;
+  params?: Record<string, unknown>;
+  templates?: TemplateMap;
+  pricing?: Pricing;
+  limits?: RateLimits;
+};
+
+export function loadModelsConfig(filePath: string): ModelConfig[] {
+  if (!existsSync(filePath)) return [];
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch {
+    // ignore parse error; we'll proceed with direct ids
+    return [];
+  }
+  if (!Array.isArray(json)) return [];
+  const list: ModelConfig[] = [];
+  json.forEach((entry, i) => {
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      typeof (entry as { provider_id?: unknown }).provider_id !== "string"
+    )
+      return;
+    const res = ModelConfigSchema.safeParse(entry);
+    if (!res.success) {
+      const issue = res.error.issues[0];
+      throw new Error(
+        `Invalid model config at [${i}]${
+          issue?.path.length ? "." + issue.path.join(".") : ""
+        }: ${issue?.message ?? "unknown error"}`
+      );
+    }
+    list.push(res.data);
+  });
+  return list;
+}
+
+export function resolveModels(
+  requested: string[],
+  modelsConfig: ModelConfig[]
+): ModelSpec[] {
+  return requested.map((r) => resolveModel(r, modelsConfig));
+}
+
+export function resolveModel(
+  requested: string,
+  modelsConfig: ModelConfig[]
+): ModelSpec {
+  const hit = modelsConfig.find(
+    (m) => m.name === requested || m.provider_id === requested
+  );
+  if (hit) {
+    return {
+      name: hit.name ?? hit.provider_id,
+      provider_id: hit.provider_id,
+      provider: hit.provider,
+      params: hit.params,
+      templates: hit.templates,
+      pricing: hit.pricing,
+      limits: hit.limits,
+    };
+  }
+  return { name: requested, provider_id: requested };
+}
+
+/**
+ * Config entries whose alias names a different model than its
+ * `provider_id`, e.g. `o1` -> `openai/o3`. Variant suffixes (`gpt-5:high`)
+ * and provider-side version suffixes (`deepseek-r1` ->
+ * `deepseek/deepseek-r1-0528`) are not mismatches.
+ */
+export function aliasMismatches(modelsConfig: ModelConfig[]): ModelConfig[] {
+  return modelsConfig.filter((m) => {
+    if (!m.name) return false;
+    const alias = modelSlug(m.name);
+    const target = modelSlug(m.provider_id);
+    return target !== alias && !target.startsWith(`${alias}-`);
+  });
+}
+
+// "anthropic/claude-3.5-sonnet:free" -> "claude-3-5-sonnet"
+function modelSlug(id: string): string {
+  return id
+    .split("/")
+    .pop()!
+    .split(":")[0]!
+    .toLowerCase()
+    .replace(/[._\s]+/g, "-");
+}
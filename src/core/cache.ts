@@ -0,0 +1,183 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import type {
+  CompletionParams,
+  OpenRouterClient,
+} from "../providers/openrouter";
+import { sha256, stableStringify } from "./hash";
+
+export type CacheMode = "read-write" | "read-only" | "off";
+
+export const CACHE_MODES: CacheMode[] = ["read-write", "read-only", "off"];
+
+type Completion = Awaited<ReturnType<OpenRouterClient["complete"]>>;
+
+type CacheEntry = {
+  key: string;
+  createdAt: string;
+  provider: unknown;
+  model: string;
+  text: string;
+  raw: unknown;
+  usage?: Completion["usage"];
+};
+
+export type ResponseCache = {
+  mode: CacheMode;
+  get(key: string): CacheEntry | undefined;
+  set(entry: CacheEntry): void;
+};
+
+/**
+ * Content address for a completion: provider config, model, exact messages
+ * and effective params. Any change to one of them is a cache miss.
+ */
+export function cacheKey(provider: unknown, input: CompletionParams): string {
+  return sha256(
+    stableStringify({
+      provider,
+      model: input.model,
+      messages: input.messages,
+      params: input.params ?? {},
+      // Sample 0 shares the key of an unsampled call
+      ...(input.sample ? { sample: input.sample } : {}),
+    })
+  );
+}
+
+export function createResponseCache(options: {
+  dir: string;
+  mode: CacheMode;
+}): ResponseCache {
+  const { dir, mode } = options;
+
+  function get(key: string): CacheEntry | undefined {
+    if (mode === "off") return undefined;
+    const path = entryPath(dir, key);
+    if (!existsSync(path)) return undefined;
+    try {
+      return JSON.parse(readFileSync(path, "utf8")) as CacheEntry;
+    } catch {
+      // treat unreadable entries as misses; they get overwritten
+      return undefined;
+    }
+  }
+
+  function set(entry: CacheEntry): void {
+    if (mode !== "read-write") return;
+    const path = entryPath(dir, entry.key);
+    mkdirSync(join(dir, entry.key.slice(0, 2)), { recursive: true });
+    writeFileSync(path, JSON.stringify(entry), "utf8");
+  }
+
+  return { mode, get, set };
+}
+
+export function withCache(
+  client: OpenRouterClient,
+  cache: ResponseCache,
+  provider: unknown
+): OpenRouterClient {
+  if (cache.mode === "off") return client;
+
+  async function complete(input: CompletionParams) {
+    const key = cacheKey(provider, input);
+    const hit = cache.get(key);
+    if (hit) {
+      return { text: hit.text, raw: hit.raw, usage: hit.usage, cached: true };
+    }
+    const res = await client.complete(input);
+    cache.set({
+      key,
+      createdAt: new Date().toISOString(),
+      provider,
+      model: input.model,
+      text: res.text,
+      raw: res.raw,
+      usage: res.usage,
+    });
+    return res;
+  }
+
+  return { complete };
+}
+
+export type CacheStats = {
+  dir: string;
+  entries: number;
+  bytes: number;
+  oldest?: string;
+  newest?: string;
+  byModel: Record<string, number>;
+};
+
+export function cacheStats(dir: string): CacheStats {
+  const stats: CacheStats = { dir, entries: 0, bytes: 0, byModel: {} };
+  for (const { path, entry } of listEntries(dir)) {
+    stats.entries += 1;
+    stats.bytes += statSync(path).size;
+    stats.byModel[entry.model] = (stats.byModel[entry.model] ?? 0) + 1;
+    if (!stats.oldest || entry.createdAt < stats.oldest)
+      stats.oldest = entry.createdAt;
+    if (!stats.newest || entry.createdAt > stats.newest)
+      stats.newest = entry.createdAt;
+  }
+  return stats;
+}
+
+export function pruneCache(
+  dir: string,
+  opts: { olderThanDays?: number; model?: string; all?: boolean }
+): { removed: number; bytes: number } {
+  const cutoff =
+    opts.olderThanDays !== undefined
+      ? Date.now() - opts.olderThanDays * 86_400_000
+      : undefined;
+  let removed = 0;
+  let bytes = 0;
+  for (const { path, entry } of listEntries(dir)) {
+    const match =
+      opts.all ||
+      ((cutoff === undefined || Date.parse(entry.createdAt) < cutoff) &&
+        (opts.model === undefined || entry.model === opts.model));
+    if (!match) continue;
+    bytes += statSync(path).size;
+    rmSync(path);
+    removed += 1;
+  }
+  return { removed, bytes };
+}
+
+function listEntries(dir: string): { path: string; entry: CacheEntry }[] {
+  if (!existsSync(dir)) return [];
+  const out: { path: string; entry: CacheEntry }[] = [];
+  for (const shard of readdirSync(dir)) {
+    const shardDir = join(dir, shard);
+    if (!statSync(shardDir).isDirectory()) continue;
+    for (const file of readdirSync(shardDir)) {
+      if (!file.endsWith(".json")) continue;
+      const path = join(shardDir, file);
+      try {
+        out.push({
+          path,
+          entry: JSON.parse(readFileSync(path, "utf8")) as CacheEntry,
+        });
+      } catch {
+        // skip unreadable entries
+      }
+    }
+  }
+  return out;
+}
+
+function entryPath(dir: string, key: string): string {
+  return join(dir, key.slice(0, 2), `${key}.json`);
+}
@@ -0,0 +1,18 @@
+import { createHash } from "node:crypto";
+
+// JSON.stringify with object keys sorted, so equal values hash equally
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]])
+        )
+      : v
+  );
+}
+
+export function sha256(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
@@ -0,0 +1,85 @@
+import {
+  appendFileSync,
+  existsSync,
+  readFileSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import type { ModelSpec } from "../config/models";
+import type { JudgeConfig } from "../eval/strategies/judge";
+import type { ExtractStep } from "../eval/extract";
+import type { SuiteSelection } from "../schema/select";
+import type { TestResult } from "./runner";
+
+export const JOURNAL_FILE = "results.jsonl";
+export const RUN_META_FILE = "run.json";
+
+// Written when a run starts so `bench run --resume` can rebuild its options
+export type RunMeta = {
+  runId: string;
+  startedAt: string;
+  suitePath: string;
+  suitePaths?: string[];
+  selection?: SuiteSelection;
+  models: ModelSpec[];
+  judge?: ModelSpec;
+  judgeConfig?: JudgeConfig;
+  samples?: number;
+  passThreshold?: number;
+  templates?: string[];
+  extract?: ExtractStep[];
+  stream?: boolean;
+};
+
+export function appendResult(runDir: string, result: TestResult): void {
+  appendFileSync(
+    join(runDir, JOURNAL_FILE),
+    JSON.stringify(result) + "\n",
+    "utf8"
+  );
+}
+
+/**
+ * Results recorded in a run's journal, last entry per (model, test) winning.
+ * A truncated final line (crash mid-write) is ignored.
+ */
+export function readJournal(runDir: string): TestResult[] {
+  const path = join(runDir, JOURNAL_FILE);
+  if (!existsSync(path)) return [];
+  const latest = new Map<string, TestResult>();
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    let r: TestResult;
+    try {
+      r = JSON.parse(line) as TestResult;
+    } catch {
+      continue;
+    }
+    latest.set(resultKey(r), r);
+  }
+  return [...latest.values()];
+}
+
+// Results run under a prompt template are keyed by it too
+export function resultKey(r: {
+  model: string;
+  testId: string;
+  template?: string;
+}): string {
+  const base = `${r.model}\u0000${r.testId}`;
+  return r.template ? `${base}\u0000${r.template}` : base;
+}
+
+export function writeRunMeta(runDir: string, meta: RunMeta): void {
+  writeFileSync(
+    join(runDir, RUN_META_FILE),
+    JSON.stringify(meta, null, 2),
+    "utf8"
+  );
+}
+
+export function readRunMeta(runDir: string): RunMeta | undefined {
+  const path = join(runDir, RUN_META_FILE);
+  if (!existsSync(path)) return undefined;
+  return JSON.parse(readFileSync(path, "utf8")) as RunMeta;
+}
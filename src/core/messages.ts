@@ -0,0 +1,63 @@
+import type { ChatMessage } from "../providers/openrouter";
+import type { TestCase } from "./runner";
+import { McqEvalSchema, renderChoices } from "../eval/strategies/mcq";
+
+// Used when a test sets no `system`; free-form answers for judged tests
+export const STRICT_SYSTEM_PROMPT =
+  "You are a helpful assistant. Respond ONLY with the answer, and nothing else. Do not add any preamble, context, or commentary.";
+export const CONCISE_SYSTEM_PROMPT =
+  "You are a helpful assistant. Respond concisely.";
+
+/**
+ * The exact conversation sent for a test: system prompt, few-shot example
+ * pairs, then either `messages` or the single `prompt` (or both, `prompt`
+ * last). A system message inside `messages` replaces the default one.
+ */
+export function buildMessages(test: TestCase): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  const ownSystem = test.messages?.some((m) => m.role === "system");
+  if (test.system !== undefined) {
+    out.push({ role: "system", content: test.system });
+  } else if (!ownSystem) {
+    out.push({
+      role: "system",
+      content:
+        test.eval?.type !== "llm-judge"
+          ? STRICT_SYSTEM_PROMPT
+          : CONCISE_SYSTEM_PROMPT,
+    });
+  }
+  for (const ex of test.examples ?? []) {
+    out.push(
+      { role: "user", content: ex.input },
+      { role: "assistant", content: ex.output }
+    );
+  }
+  const turns = [...(test.messages ?? [])];
+  if (test.prompt !== undefined) {
+    turns.push({ role: "user", content: test.prompt });
+  }
+  // Multiple-choice options go after the question in the final user turn
+  if (test.eval?.type === "mcq") {
+    const last = turns.map((m) => m.role).lastIndexOf("user");
+    turns[last] = { role: "user", content: promptOf(test) };
+  }
+  out.push(...turns);
+  return out;
+}
+
+// The final user turn; what reports and replay lookups call "the prompt"
+export function promptOf(test: TestCase): string {
+  const users = (test.messages ?? []).filter((m) => m.role === "user");
+  const prompt = test.prompt ?? users[users.length - 1]?.content ?? "";
+  return test.eval?.type === "mcq"
+    ? renderChoices(prompt, McqEvalSchema.parse(test.eval))
+    : prompt;
+}
+
+// Plain-text transcript without the system prompt, e.g. for a judge
+export function renderConversation(messages: ChatMessage[]): string {
+  const turns = messages.filter((m) => m.role !== "system");
+  if (turns.length === 1) return turns[0]!.content;
+  return turns.map((m) => `${m.role}: ${m.content}`).join("\n");
+}
@@ -0,0 +1,274 @@
+import { resolveModel, type ModelSpec } from "../config/models";
+import {
+  judgeMessages,
+  LLMJudgeEvalSchema,
+  mergeJudgeConfig,
+} from "../eval/strategies/judge";
+import { mcqOrders, permuteTest } from "../eval/strategies/mcq";
+import { addUsage, type TokenUsage } from "../scoring/cost";
+import { scoringFailed } from "../scoring/aggregator";
+import { readJournal, resultKey } from "./journal";
+import {
+  conversation,
+  bucketKey,
+  DEFAULT_JUDGE,
+  templateVariants,
+  type RunOptions,
+} from "./runner";
+import { estimateTokens } from "./throttle";
+
+export type PlanOptions = Pick<
+  RunOptions,
+  | "suite"
+  | "models"
+  | "judge"
+  | "judgeConfig"
+  | "modelCatalog"
+  | "concurrency"
+  | "maxRequestsPerMinute"
+  | "maxTokensPerMinute"
+  | "samples"
+  | "templates"
+  | "suiteTemplates"
+  | "resume"
+> & {
+  // Assumed reply length of every model and judge call (default 256)
+  outputTokens?: number;
+  // Assumed duration of every model and judge call (default 5000)
+  callMs?: number;
+};
+
+/** One (model, test, template) pair the run would execute. */
+export type PlannedPair = {
+  model: string;
+  testId: string;
+  task: string;
+  template?: string;
+  // Model calls: samples × option orders
+  calls: number;
+  judgeCalls: number;
+  // Limiter estimate for the model calls, and the assumed replies
+  usage: TokenUsage;
+  judgeUsage?: TokenUsage;
+};
+
+export type ModelPlan = {
+  model: string;
+  provider_id: string;
+  pairs: number;
+  // Pairs a resumed run already has and would skip
+  skipped: number;
+  calls: number;
+  judgeCalls: number;
+  usage?: TokenUsage;
+  priced: boolean;
+};
+
+export type RunPlan = {
+  pairs: PlannedPair[];
+  byModel: ModelPlan[];
+  // Judges that would be called, by name
+  judges: Record<string, { calls: number; usage: TokenUsage }>;
+  calls: number;
+  judgeCalls: number;
+  total?: TokenUsage;
+  // Models or judges without pricing; their calls are not in `cost`
+  unpriced: string[];
+  wallMs: number;
+  // The limit that sets wallMs
+  bound: "concurrency" | "rpm" | "tpm";
+  assumptions: { outputTokens: number; callMs: number };
+};
+
+const DEFAULT_OUTPUT_TOKENS = 256;
+const DEFAULT_CALL_MS = 5000;
+
+/**
+ * What `runBenchmark` would do with these options, without calling
+ * anything: the pairs it would run, call counts, and token, cost and
+ * wall-time estimates. Input tokens use the limiter's own estimator;
+ * replies are assumed to be `outputTokens` long and judge re-asks are not
+ * counted, so treat the figures as a lower bound.
+ */
+export function planRun(options: PlanOptions): RunPlan {
+  const outputTokens = options.outputTokens ?? DEFAULT_OUTPUT_TOKENS;
+  const callMs = options.callMs ?? DEFAULT_CALL_MS;
+  const samples = Math.max(1, options.samples ?? 1);
+  const done = new Set(
+    options.resume
+      ? readJournal(options.resume.runDir)
+          .filter(
+            (r) =>
+              !(options.resume?.retryErrors && (r.error || scoringFailed(r)))
+          )
+          .map((r) => resultKey(r))
+      : []
+  );
+  const judgeSpec = (name?: string): ModelSpec =>
+    name
+      ? resolveModel(name, options.modelCatalog ?? [])
+      : options.judge ?? DEFAULT_JUDGE;
+  const priced = (usage: TokenUsage, spec: ModelSpec): TokenUsage =>
+    spec.pricing
+      ? {
+          ...usage,
+          cost:
+            (usage.input_tokens * spec.pricing.input +
+              usage.output_tokens * spec.pricing.output) /
+            1e6,
+        }
+      : usage;
+
+  const pairs: PlannedPair[] = [];
+  const byModel: ModelPlan[] = [];
+  const judges: RunPlan["judges"] = {};
+  const unpriced = new Set<string>();
+  // Calls and limiter-counted tokens per bucket, as runBenchmark keys them
+  const buckets = new Map<
+    string,
+    { spec: ModelSpec; calls: number; tokens: number }
+  >();
+  const charge = (spec: ModelSpec, calls: number, tokens: number) => {
+    const key = bucketKey(spec);
+    const b = buckets.get(key) ?? { spec, calls: 0, tokens: 0 };
+    b.calls += calls;
+    b.tokens += tokens;
+    buckets.set(key, b);
+  };
+  // Every model and judge call holds a slot for its duration
+  let slotMs = 0;
+  for (const model of options.models) {
+    const own: PlannedPair[] = [];
+    let skipped = 0;
+    for (const variant of templateVariants(model, options)) {
+      for (const test of options.suite) {
+        const key = resultKey({
+          model: model.name,
+          testId: test.id,
+          template: variant.name,
+        });
+        if (done.has(key)) {
+          skipped += 1;
+          continue;
+        }
+        const views =
+          test.eval.type === "mcq"
+            ? mcqOrders(test).map((order) => permuteTest(test, order))
+            : [test];
+        const calls = samples * views.length;
+        const input = views.reduce(
+          (acc, view) =>
+            acc +
+            estimateTokens(
+              conversation(view, variant)
+                .map((m) => m.content)
+                .join("\n")
+            ),
+          0
+        );
+        const usage = priced(
+          {
+            input_tokens: input * samples,
+            output_tokens: outputTokens * calls,
+          },
+          model
+        );
+        let judgeCalls = 0;
+        let judgeUsage: TokenUsage | undefined;
+        if (test.eval.type === "llm-judge") {
+          const cfg = mergeJudgeConfig(
+            options.judgeConfig,
+            LLMJudgeEvalSchema.parse(test.eval).judge
+          );
+          // The answer is unknown; it is assumed to be `outputTokens` long
+          const prompt = judgeMessages(test, "", cfg)
+            .map((m) => m.content)
+            .join("\n");
+          for (const name of cfg.panel ?? [cfg.model]) {
+            const spec = judgeSpec(name);
+            charge(
+              spec,
+              calls,
+              (estimateTokens(prompt) + outputTokens) * calls
+            );
+            const spend = priced(
+              {
+                input_tokens: (estimateTokens(prompt) + outputTokens) * calls,
+                output_tokens: outputTokens * calls,
+              },
+              spec
+            );
+            const prev = judges[spec.name];
+            judges[spec.name] = {
+              calls: (prev?.calls ?? 0) + calls,
+              usage: addUsage(prev?.usage, spend)!,
+            };
+            judgeUsage = addUsage(judgeUsage, spend);
+            judgeCalls += calls;
+            if (!spec.pricing) unpriced.add(spec.name);
+          }
+        }
+        charge(model, calls, input * samples);
+        slotMs += (calls + judgeCalls) * callMs;
+        own.push({
+          model: model.name,
+          testId: test.id,
+          task: test.task,
+          template: variant.name,
+          calls,
+          judgeCalls,
+          usage,
+          judgeUsage,
+        });
+      }
+    }
+    if (!model.pricing && own.length) unpriced.add(model.name);
+    pairs.push(...own);
+    byModel.push({
+      model: model.name,
+      provider_id: model.provider_id,
+      pairs: own.length,
+      skipped,
+      calls: own.reduce((acc, p) => acc + p.calls, 0),
+      judgeCalls: own.reduce((acc, p) => acc + p.judgeCalls, 0),
+      usage: addUsage(...own.map((p) => p.usage)),
+      priced: Boolean(model.pricing),
+    });
+  }
+
+  const calls = pairs.reduce((acc, p) => acc + p.calls, 0);
+  // A bucket admits a full minute's quota at once, then waits for its
+  // window to roll; the slowest bucket sets the pace
+  const minutes = (amount: number, perMinute: number) =>
+    Math.max(0, Math.ceil(amount / perMinute) - 1) * 60_000;
+  const slowest = (
+    minutesOf: (b: { spec: ModelSpec; calls: number; tokens: number }) => number
+  ) => Math.max(0, ...[...buckets.values()].map(minutesOf));
+  const bounds = {
+    concurrency: slotMs / Math.max(1, options.concurrency),
+    rpm: slowest((b) =>
+      minutes(b.calls, b.spec.limits?.rpm ?? options.maxRequestsPerMinute)
+    ),
+    tpm: slowest((b) =>
+      minutes(b.tokens, b.spec.limits?.tpm ?? options.maxTokensPerMinute)
+    ),
+  };
+  const bound = (Object.keys(bounds) as (keyof typeof bounds)[]).reduce(
+    (a, b) => (bounds[b] > bounds[a] ? b : a)
+  );
+  return {
+    pairs,
+    byModel,
+    judges,
+    calls,
+    judgeCalls: pairs.reduce((acc, p) => acc + p.judgeCalls, 0),
+    total: addUsage(
+      ...pairs.map((p) => p.usage),
+      ...pairs.map((p) => p.judgeUsage)
+    ),
+    unpriced: [...unpriced],
+    wallMs: Math.round(bounds[bound]),
+    bound,
+    assumptions: { outputTokens, callMs },
+  };
+}
@@ -1,38 +1,145 @@
-import { mkdirSync, writeFileSync } from "node:fs";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { existsSync } from "node:fs";
-import { join, resolve } from "node:path";
+import { basename, join, resolve } from "node:path";
+import type { ChatMessage, OpenRouterClient } from "../providers/openrouter";
+import { createProviderRegistry } from "../providers";
 import {
-  createOpenRouterClient,
-  type OpenRouterClient,
-} from "../providers/openrouter";
-import { evaluateTest } from "../eval/evaluate";
-import { createLimiter } from "./throttle";
+  resolveModel,
+  type ModelConfig,
+  type ModelSpec,
+} from "../config/models";
+import { evaluateTest, type EvalContext } from "../eval/evaluate";
+import {
+  DEFAULT_EXTRACT,
+  extractAnswer,
+  type ExtractStep,
+} from "../eval/extract";
+import { judgeErrorUsage, type JudgeConfig } from "../eval/strategies/judge";
+import {
+  combinePermutations,
+  mcqOrders,
+  permuteTest,
+} from "../eval/strategies/mcq";
+import {
+  createLimiter,
+  errorStatus,
+  estimateTokens,
+  isCancelled,
+  type CircuitReport,
+} from "./throttle";
+import { buildMessages, promptOf } from "./messages";
+import {
+  applyTemplate,
+  checkTemplates,
+  resolveTemplate,
+  type PromptTemplate,
+  type TemplateMap,
+} from "./templates";
+import { createResponseCache, type CacheMode } from "./cache";
+import {
+  appendResult,
+  readJournal,
+  readRunMeta,
+  resultKey,
+  writeRunMeta,
+} from "./journal";
 import { randomUUID } from "node:crypto";
 import { renderRunSummaryMarkdown } from "../reporting/summary";
+import { renderRunReportHtml } from "../reporting/html";
+import { hashSuite } from "../schema/test";
+import { describeSelection, type SuiteSelection } from "../schema/select";
+import {
+  aggregateScores,
+  DEFAULT_SCORING_CONFIG,
+  scoringFailed,
+  type ScoreBreakdown,
+  type ScoringConfig,
+} from "../scoring/aggregator";
+import {
+  computeStats,
+  mean,
+  type ScoreStats,
+  type StatsOptions,
+} from "../scoring/stats";
+import { computeMcqStats, type McqStats } from "../scoring/mcq";
+import {
+  callTiming,
+  computeLatencyStats,
+  mergeTimings,
+  type CallTiming,
+  type LatencyStats,
+} from "../scoring/latency";
+import {
+  addUsage,
+  callUsage,
+  summarizeUsage,
+  totalTokens,
+  type Budget,
+  type TokenUsage,
+  type UsageSummary,
+} from "../scoring/cost";
 
 export type TestCase = {
   id: string;
   task: string;
-  prompt: string;
+  // At least one of `prompt` and `messages` (see buildMessages)
+  prompt?: string;
+  messages?: ChatMessage[];
+  examples?: { input: string; output: string }[];
+  system?: string;
+  extract?: ExtractStep[];
   expected?: unknown;
-  eval: { type: "exact" | "llm-judge"; [k: string]: unknown };
+  eval: {
+    type: "exact" | "llm-judge" | "regex" | "distance" | "chrf" | "mcq";
+    [k: string]: unknown;
+  };
   metadata?: Record<string, unknown>;
 };
 
 export type RunOptions = {
   suite: TestCase[];
   suitePath: string;
-  models: {
-    name: string;
-    provider_id: string;
-    params?: Record<string, unknown>;
-  }[];
+  // Suite files/manifests as given, and the filters applied to them
+  suitePaths?: string[];
+  suiteInfo?: SuiteInfo;
+  selection?: SuiteSelection;
+  models: ModelSpec[];
+  // Model used for llm-judge grading (default: openai/o3 via OpenRouter)
+  judge?: ModelSpec;
+  // Suite-wide judge settings (model, rubric, scale); tests may override
+  judgeConfig?: JudgeConfig;
+  // models.config.json entries, used to resolve judge models by name
+  modelCatalog?: ModelConfig[];
   concurrency: number;
   maxRequestsPerMinute: number;
   maxTokensPerMinute: number;
   retries: number;
   timeoutMs: number;
   outDir: string;
+  cache?: { dir: string; mode: CacheMode };
+  // Task -> category mapping and weights for the 0–100 score
+  scoring?: ScoringConfig;
+  // Calls per (model, test); the result's score is the mean (default 1)
+  samples?: number;
+  // Sample score counted as a pass for pass@k (default 1)
+  passThreshold?: number;
+  // Run every test once per named prompt template (see core/templates)
+  templates?: string[];
+  // Templates defined by the suite manifest
+  suiteTemplates?: TemplateMap;
+  // Answer extraction for tests that set none (default: strip-reasoning)
+  extract?: ExtractStep[];
+  // Stop scheduling calls once this run has spent this much
+  budget?: Budget;
+  // Stream model replies, recording time to first token
+  stream?: boolean;
+  // Pause a model after this many consecutive failed calls (default: never)
+  breakerFailures?: number;
+  // Continue a previous run in place, skipping pairs that already succeeded
+  resume?: { runDir: string; retryErrors?: boolean };
+  // Aborting drops queued calls and waits for those in flight; a partial
+  // report is still written
+  signal?: AbortSignal;
   onProgress?: (p: {
     completed: number;
     total: number;
@@ -42,137 +149,468 @@ export type RunOptions = {
 
 export type TestResult = {
   testId: string;
+  task?: string;
   model: string;
   provider_id: string;
-  prompt: string;
-  response: string;
+  // Prompt template the test ran under, when run with templates
+  template?: string;
+  prompt: string; // final user turn
+  // Exact conversation sent, system prompt included
+  messages?: ChatMessage[];
+  response: string; // as returned by the model
+  // What was scored, when extraction changed the response
+  extracted?: string;
   raw?: unknown;
-  score: number; // 0..1 per-test
+  score: number; // 0..1 per-test (mean over samples)
+  // Evaluator outcome label and details (see Evaluation)
+  outcome?: string;
+  details?: Record<string, unknown>;
+  // The answering call alone (mean over samples); see `timing` for the rest
   latencyMs: number;
+  cached?: boolean;
+  // Time to first token, throughput and retries; none when cached
+  timing?: CallTiming;
+  // Spent on this test's model calls and on judging them (all samples)
+  usage?: TokenUsage;
+  judgeUsage?: TokenUsage;
   expected?: unknown;
   error?: string;
+  // Every call when sampled more than once; top-level fields mirror the first
+  samples?: SampleResult[];
+};
+
+export type SampleResult = {
+  response: string;
+  extracted?: string;
+  score: number;
+  outcome?: string;
+  details?: Record<string, unknown>;
+  latencyMs: number;
+  cached?: boolean;
+  timing?: CallTiming;
+  usage?: TokenUsage;
+  judgeUsage?: TokenUsage;
+  error?: string;
 };
 
 export type RunOutput = {
   runId: string;
   runDir: string;
+  // "partial" when the run was interrupted; resume it with --resume
+  status?: "complete" | "partial";
   startedAt: string;
   finishedAt: string;
   suitePath: string;
+  suitePaths?: string[];
+  suite?: SuiteInfo;
+  // Filters used to pick the tests, and the same as a readable expression
+  selection?: SuiteSelection;
+  filter?: string;
+  // Prompt templates each test ran under
+  templates?: string[];
+  extract?: ExtractStep[];
+  stream?: boolean;
+  // Caps given for the run, and which one stopped it
+  budget?: Budget & { reached?: keyof Budget };
+  // Models whose circuit breaker opened, and how it ended
+  circuits?: CircuitReport[];
+  // Content hash of the tests this run selected (after filters); the
+  // leaderboard only ranks runs together when it matches. `suite.hash`
+  // covers the whole suite instead, and is what compare and --baseline check
+  selectionHash?: string;
   models: RunOptions["models"];
   results: TestResult[];
   summary: {
-    byModel: Record<string, { tests: number; avgScore: number }>;
+    byModel: Record<
+      string,
+      {
+        tests: number;
+        // Scores leave out results whose judge or evaluator failed
+        avgScore: number;
+        unscored?: number;
+        // Results per evaluator outcome, e.g. { exact: 12, "macron-only": 3 }
+        outcomes?: Record<string, number>;
+        stats?: ScoreStats;
+        taskStats?: Record<string, ScoreStats>;
+        // Consistency and position bias on multiple-choice items
+        mcq?: McqStats;
+        // Latency, time to first token and throughput percentiles
+        latency?: LatencyStats;
+      } & Partial<ScoreBreakdown>
+    >;
     overallAvg: number;
+    // Mean of the per-model 0–100 scores
+    overallScore?: number;
+    // All models pooled
+    byTask?: ScoreBreakdown["byTask"];
+    scoring?: ScoringConfig;
+    // Model -> template -> score, when run with templates
+    byTemplate?: Record<string, Record<string, TemplateScore>>;
+    // Tokens and cost of model and judge calls
+    usage?: UsageSummary;
+    // Model -> instruction language -> score, pooling its templates
+    byLang?: Record<
+      string,
+      Record<string, { tests: number; avgScore: number }>
+    >;
   };
 };
 
+export type TemplateScore = {
+  lang?: string;
+  tests: number;
+  avgScore: number;
+  ci95: [number, number];
+};
+
+// Identity of the whole suite, before filters; compare and --baseline refuse
+// to mix hashes
+export type SuiteInfo = { name?: string; version?: string; hash: string };
+
+export const DEFAULT_JUDGE: ModelSpec = {
+  name: "o3",
+  provider_id: "openai/o3",
+};
+
 export async function runBenchmark(options: RunOptions): Promise<RunOutput> {
-  const runId =
-    new Date()
-      .toISOString()
-      .replace(/[-:TZ.]/g, "")
-      .slice(0, 14) +
-    "-" +
-    randomUUID().slice(0, 8);
-  const runDir = resolve(options.outDir, runId);
+  if (options.templates?.length) {
+    checkTemplates(
+      options.suite,
+      options.models,
+      options.templates,
+      options.suiteTemplates
+    );
+  }
+  const variantsByModel = new Map(
+    options.models.map((model) => [
+      model.name,
+      templateVariants(model, options),
+    ])
+  );
+  const runId = options.resume
+    ? basename(resolve(options.resume.runDir))
+    : new Date()
+        .toISOString()
+        .replace(/[-:TZ.]/g, "")
+        .slice(0, 14) +
+      "-" +
+      randomUUID().slice(0, 8);
+  const runDir = options.resume
+    ? resolve(options.resume.runDir)
+    : resolve(options.outDir, runId);
   if (!existsSync(runDir)) {
     mkdirSync(runDir, { recursive: true });
-    mkdirSync(join(runDir, "traces"), { recursive: true });
   }
+  mkdirSync(join(runDir, "traces"), { recursive: true });
+
+  const previous = options.resume ? readJournal(runDir) : [];
+  const startedAt =
+    (options.resume && readRunMeta(runDir)?.startedAt) ||
+    new Date().toISOString();
+  writeRunMeta(runDir, {
+    runId,
+    startedAt,
+    suitePath: options.suitePath,
+    suitePaths: options.suitePaths,
+    selection: options.selection,
+    models: options.models,
+    judge: options.judge,
+    judgeConfig: options.judgeConfig,
+    samples: options.samples,
+    passThreshold: options.passThreshold,
+    templates: options.templates,
+    extract: options.extract,
+    stream: options.stream,
+  });
 
   const limiter = createLimiter({
     maxConcurrent: options.concurrency,
     maxRequestsPerMinute: options.maxRequestsPerMinute,
     maxTokensPerMinute: options.maxTokensPerMinute,
+    breakerFailures: options.breakerFailures,
   });
+  // Only calls in flight are awaited once interrupted
+  const onAbort = () => limiter.cancel("Run interrupted");
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+  // Calls to one upstream model share a bucket, whichever alias made them
+  const bucketOf = (spec: ModelSpec) =>
+    limiter.bucket(bucketKey(spec), spec.limits);
 
-  const client: OpenRouterClient = createOpenRouterClient({
+  const providers = createProviderRegistry({
     timeoutMs: options.timeoutMs,
+    cache: options.cache ? createResponseCache(options.cache) : undefined,
   });
+  const evalCtx: EvalContext = {
+    judge: {
+      defaults: options.judgeConfig,
+      get: (name) => {
+        const spec = name
+          ? resolveModel(name, options.modelCatalog ?? [])
+          : options.judge ?? DEFAULT_JUDGE;
+        return {
+          name: spec.name,
+          model: spec.provider_id,
+          pricing: spec.pricing,
+          // Resolved lazily so runs without llm-judge tests need no judge credentials
+          client: {
+            // Retried like model calls, so a judge outage is not scored 0
+            complete: (input) =>
+              withRetry(
+                () =>
+                  bucketOf(spec).schedule(
+                    () =>
+                      providers.get(spec).complete({
+                        ...input,
+                        params: { ...spec.params, ...input.params },
+                      }),
+                    {
+                      tokens: estimateTokens(
+                        input.messages.map((m) => m.content).join("\n")
+                      ),
+                      usage: (res) => (res.cached ? 0 : usageTokens(res.usage)),
+                    }
+                  ),
+                options.retries
+              ),
+          },
+        };
+      },
+    },
+  };
+
+  // Previous results are kept unless they errored and are being retried
+  const done = new Map<string, TestResult>();
+  for (const r of previous) {
+    if (options.resume?.retryErrors && (r.error || scoringFailed(r))) continue;
+    done.set(resultKey(r), r);
+  }
+
+  // Spend of this invocation (earlier results of a resumed run excluded)
+  let spent: TokenUsage | undefined;
+  let budgetReached: keyof Budget | undefined;
+  const overBudget = (): boolean => {
+    const b = options.budget;
+    if (b?.usd !== undefined && (spent?.cost ?? 0) >= b.usd) {
+      budgetReached ??= "usd";
+    } else if (b?.tokens !== undefined && totalTokens(spent) >= b.tokens) {
+      budgetReached ??= "tokens";
+    }
+    return budgetReached !== undefined;
+  };
+  // Queued calls are dropped as soon as a cap is reached, not run empty
+  const spend = (usage?: TokenUsage) => {
+    spent = addUsage(spent, usage);
+    if (overBudget())
+      limiter.cancel(`Budget reached (--budget-${budgetReached})`);
+  };
 
+  const samples = Math.max(1, options.samples ?? 1);
   const results: TestResult[] = [];
-  const startedAt = new Date().toISOString();
-  const total = options.models.length * options.suite.length;
+  const total =
+    options.models.length *
+    Math.max(1, options.templates?.length ?? 0) *
+    options.suite.length;
   let completed = 0;
 
-  const tasks: Promise<TestResult>[] = [];
+  const tasks: Promise<TestResult | undefined>[] = [];
   for (const model of options.models) {
-    for (const test of options.suite) {
-      const estimatedTokens = estimateTokens(test.prompt);
-      const task = limiter
-        .schedule(async () => {
-          const t0 = performance.now();
+    const client: OpenRouterClient = providers.get(model);
+    const bucket = bucketOf(model);
+    const runs = variantsByModel
+      .get(model.name)!
+      .flatMap((variant) => options.suite.map((test) => ({ variant, test })));
+    for (const { variant, test } of runs) {
+      const prior = done.get(
+        resultKey({
+          model: model.name,
+          testId: test.id,
+          template: variant.name,
+        })
+      );
+      if (prior) {
+        results.push(prior);
+        completed += 1;
+        continue;
+      }
+      // Multiple-choice items are asked once per option order
+      const views =
+        test.eval.type === "mcq"
+          ? mcqOrders(test).map((order) => permuteTest(test, order))
+          : [test];
+      const conversations = views.map((view) => conversation(view, variant));
+      const messages = conversations[0]!;
+      // Each call (and each retry) takes its own slot in the model's bucket
+      const runCall = async (
+        index: number,
+        view: TestCase,
+        sent: ChatMessage[]
+      ): Promise<Sample | undefined> => {
+        // Latency is the last attempt alone: no queueing, backoff or retries
+        let attempts = 0;
+        let latencyMs = 0;
+        let usage: TokenUsage | undefined;
+        if (options.signal?.aborted || overBudget()) return undefined;
+        try {
+          const res = await withRetry(
+            () =>
+              bucket.schedule(
+                async () => {
+                  attempts += 1;
+                  const t0 = performance.now();
+                  try {
+                    return await client.complete({
+                      model: model.provider_id,
+                      messages: sent,
+                      params: model.params ?? {},
+                      ...(index > 0 ? { sample: index } : {}),
+                      ...(options.stream ? { stream: true } : {}),
+                    });
+                  } finally {
+                    latencyMs = Math.round(performance.now() - t0);
+                  }
+                },
+                {
+                  tokens: estimateTokens(sent.map((m) => m.content).join("\n")),
+                  usage: (res) => (res.cached ? 0 : usageTokens(res.usage)),
+                }
+              ),
+            options.retries
+          );
+          const { text, raw, cached } = res;
+          usage = callUsage(res.usage, model.pricing, cached);
+          spend(usage);
+          const answered = {
+            response: text,
+            raw,
+            latencyMs,
+            cached,
+            timing: cached
+              ? undefined
+              : callTiming(
+                  latencyMs,
+                  attempts - 1,
+                  res.ttftMs,
+                  res.usage?.output_tokens
+                ),
+            usage,
+          };
+          let answer = text;
           try {
-            const { text, raw } = await withRetry(
-              async () =>
-                client.complete({
-                  model: model.provider_id,
-                  messages: [
-                    {
-                      role: "system",
-                      content:
-                        test.eval?.type === "exact"
-                          ? "You are a helpful assistant. Respond ONLY with the answer, and nothing else. Do not add any preamble, context, or commentary."
-                          : "You are a helpful assistant. Respond concisely.",
-                    },
-                    { role: "user", content: test.prompt },
-                  ],
-                  params: model.params ?? {},
-                }),
-              options.retries
+            answer = extractAnswer(
+              text,
+              test.extract ?? options.extract ?? DEFAULT_EXTRACT
             );
-            const latencyMs = Math.round(performance.now() - t0);
-            const score = await evaluateTest(test, text, client);
-            const result: TestResult = {
-              testId: test.id,
-              model: model.name,
-              provider_id: model.provider_id,
-              prompt: test.prompt,
-              response: text,
-              raw,
-              score,
-              latencyMs,
-              expected: test.expected,
+            const evaluation = await evaluateTest(view, answer, evalCtx);
+            spend(evaluation.usage);
+            return {
+              ...answered,
+              extracted: answer !== text ? answer : undefined,
+              score: evaluation.score,
+              outcome: evaluation.outcome,
+              details: evaluation.details,
+              judgeUsage: evaluation.usage,
             };
-            writeTrace(runDir, result);
-            return result;
           } catch (err) {
-            const latencyMs = Math.round(performance.now() - t0);
-            const result: TestResult = {
-              testId: test.id,
-              model: model.name,
-              provider_id: model.provider_id,
-              prompt: test.prompt,
-              response: "",
+            if (isCancelled(err)) return undefined;
+            // Judge calls made before the failure were paid for too
+            const judgeUsage = judgeErrorUsage(err);
+            spend(judgeUsage);
+            // The model did answer: keep its reply and spend, and record the
+            // failure as the outcome rather than as a model error
+            return {
+              ...answered,
+              extracted: answer !== text ? answer : undefined,
               score: 0,
-              latencyMs,
-              expected: test.expected,
-              error: err instanceof Error ? err.message : String(err),
+              outcome:
+                view.eval.type === "llm-judge" ? "judge_error" : "eval_error",
+              details: {
+                error: err instanceof Error ? err.message : String(err),
+              },
+              judgeUsage,
             };
-            writeTrace(runDir, result);
-            return result;
           }
-        }, estimatedTokens)
-        .then((res) => {
-          results.push(res);
-          completed += 1;
-          options.onProgress?.({ completed, total, last: res });
-          return res;
-        });
+        } catch (err) {
+          // Dropped unsent when interrupted or out of budget; redone on resume
+          if (isCancelled(err)) return undefined;
+          return {
+            response: "",
+            score: 0,
+            latencyMs,
+            timing: attempts ? { retries: attempts - 1 } : undefined,
+            usage,
+            error: err instanceof Error ? err.message : String(err),
+          };
+        }
+      };
+      const runSample = (index: number): Promise<Sample | undefined> =>
+        views.length === 1
+          ? runCall(index, test, messages)
+          : Promise.all(
+              views.map((view, p) => runCall(index, view, conversations[p]!))
+            ).then((list) =>
+              list.some((x) => !x)
+                ? undefined
+                : mergePermutations(list as Sample[], conversations)
+            );
+      const task = Promise.all(
+        Array.from({ length: samples }, (_, i) => runSample(i))
+      ).then((list) => {
+        // A pair interrupted mid-sampling is redone on resume
+        if (list.some((x) => !x)) return undefined;
+        const res = combineSamples(
+          test,
+          model,
+          variant.name,
+          messages,
+          list as Sample[]
+        );
+        writeTrace(runDir, res);
+        appendResult(runDir, res);
+        results.push(res);
+        completed += 1;
+        options.onProgress?.({ completed, total, last: res });
+        return res;
+      });
       tasks.push(task);
     }
   }
+  if (completed > 0) options.onProgress?.({ completed, total });
   await Promise.all(tasks);
+  options.signal?.removeEventListener("abort", onAbort);
 
   const finishedAt = new Date().toISOString();
-  const summary = summarize(results);
+  const summary = summarize(
+    results,
+    options.scoring ?? DEFAULT_SCORING_CONFIG,
+    { passThreshold: options.passThreshold }
+  );
+  if (options.templates?.length) {
+    Object.assign(summary, summarizeTemplates(results, variantsByModel));
+  }
+  const circuits = limiter.circuits();
+  const usage = summarizeUsage(results);
+  if (usage.total) summary.usage = usage;
   const output: RunOutput = {
     runId,
     runDir,
+    status: completed < total ? "partial" : "complete",
     startedAt,
     finishedAt,
     suitePath: options.suitePath,
+    suitePaths: options.suitePaths,
+    suite: options.suiteInfo,
+    selection: options.selection,
+    filter: options.selection
+      ? describeSelection(options.selection) || undefined
+      : undefined,
+    templates: options.templates,
+    extract: options.extract,
+    stream: options.stream,
+    budget: options.budget
+      ? { ...options.budget, reached: budgetReached }
+      : undefined,
+    circuits: circuits.length ? circuits : undefined,
+    selectionHash: hashSuite(options.suite),
     models: options.models,
     results,
     summary,
@@ -185,28 +623,156 @@ export async function runBenchmark(options: RunOptions): Promise<RunOutput> {
   // Also write a human-readable summary
   const md = renderRunSummaryMarkdown(output);
   writeFileSync(join(runDir, "summary.md"), md, "utf8");
+  // And a self-contained page for browsing results
+  writeFileSync(
+    join(runDir, "report.html"),
+    renderRunReportHtml(output),
+    "utf8"
+  );
   return output;
 }
 
-function writeTrace(runDir: string, r: TestResult): void {
+type Sample = SampleResult & { raw?: unknown };
+
+// A prompt template as resolved for one model; no name when run without
+export type Variant = { name?: string; template?: PromptTemplate };
+
+export function templateVariants(
+  model: ModelSpec,
+  options: Pick<RunOptions, "templates" | "suiteTemplates">
+): Variant[] {
+  if (!options.templates?.length) return [{}];
+  return options.templates.map((name) => ({
+    name,
+    template: resolveTemplate(name, {
+      model: model.templates,
+      suite: options.suiteTemplates,
+    }),
+  }));
+}
+
+export function conversation(test: TestCase, variant: Variant): ChatMessage[] {
+  const messages = buildMessages(test);
+  return variant.template
+    ? applyTemplate(messages, test, variant.template, variant.name)
+    : messages;
+}
+
+// One sample of a permuted multiple-choice item: every order's call, with
+// the conversation each was sent
+function mergePermutations(
+  list: Sample[],
+  conversations: ChatMessage[][]
+): Sample {
+  const [first] = list as [Sample, ...Sample[]];
+  const failed = list.filter((x) => x.error);
+  return {
+    ...combinePermutations(
+      list.map((x, p) => ({ ...x, messages: conversations[p] }))
+    ),
+    response: first.response,
+    extracted: first.extracted,
+    raw: first.raw,
+    latencyMs: Math.round(mean(list.map((x) => x.latencyMs))),
+    cached: list.every((x) => x.cached) || undefined,
+    timing: mergeTimings(list.map((x) => x.timing)),
+    usage: addUsage(...list.map((x) => x.usage)),
+    judgeUsage: addUsage(...list.map((x) => x.judgeUsage)),
+    error: failed.length
+      ? `${failed.length}/${list.length} permutations failed: ${
+          failed[0]!.error
+        }`
+      : undefined,
+  };
+}
+
+function combineSamples(
+  test: TestCase,
+  model: ModelSpec,
+  template: string | undefined,
+  messages: ChatMessage[],
+  list: Sample[]
+): TestResult {
+  const [first] = list as [Sample, ...Sample[]];
+  const base = {
+    testId: test.id,
+    task: test.task,
+    model: model.name,
+    provider_id: model.provider_id,
+    template,
+    prompt: promptOf(test),
+    messages,
+    expected: test.expected,
+  };
+  if (list.length === 1) {
+    const { raw, ...rest } = first;
+    return { ...base, raw, ...rest };
+  }
+  const failed = list.filter((x) => x.error);
+  return {
+    ...base,
+    response: first.response,
+    extracted: first.extracted,
+    raw: first.raw,
+    score: mean(list.map((x) => x.score)),
+    outcome: first.outcome,
+    details: first.details,
+    latencyMs: Math.round(mean(list.map((x) => x.latencyMs))),
+    cached: list.every((x) => x.cached) || undefined,
+    timing: mergeTimings(list.map((x) => x.timing)),
+    usage: addUsage(...list.map((x) => x.usage)),
+    judgeUsage: addUsage(...list.map((x) => x.judgeUsage)),
+    error: failed.length
+      ? `${failed.length}/${list.length} samples failed: ${failed[0]!.error}`
+      : undefined,
+    samples: list.map(({ raw: _raw, ...rest }) => rest),
+  };
+}
+
+// File name of a result's trace under `traces/`
+export function traceFileName(r: TestResult): string {
   const isFail = Boolean(r.error) || r.score < 1;
-  const status = isFail ? "__FAIL" : "";
-  const name = `${sanitize(r.model)}__${sanitize(r.testId)}${status}.json`;
+  return `${traceStem(r)}${isFail ? "__FAIL" : ""}.json`;
+}
+
+function traceStem(r: TestResult): string {
+  const template = r.template ? `__${sanitize(r.template)}` : "";
+  return `${sanitize(r.model)}__${sanitize(r.testId)}${template}`;
+}
+
+function writeTrace(runDir: string, r: TestResult): void {
+  const name = traceFileName(r);
+  // A result redone on resume may have passed or failed before; only its
+  // latest trace is kept, since replay reads every file in traces/
+  for (const old of [`${traceStem(r)}.json`, `${traceStem(r)}__FAIL.json`]) {
+    if (old !== name) rmSync(join(runDir, "traces", old), { force: true });
+  }
   const path = join(runDir, "traces", name);
   writeFileSync(
     path,
     JSON.stringify(
       {
         testId: r.testId,
+        task: r.task,
         model: r.model,
         provider_id: r.provider_id,
+        template: r.template,
         prompt: r.prompt,
+        messages: r.messages,
         response: r.response,
+        extracted: r.extracted,
         score: r.score,
+        outcome: r.outcome,
+        details: r.details,
         latencyMs: r.latencyMs,
+        timing: r.timing,
+        cached: r.cached,
+        usage: r.usage,
+        judgeUsage: r.judgeUsage,
         expected: r.expected,
         error: r.error,
         raw: r.raw,
+        samples: r.samples,
       },
       null,
       2
@@ -215,36 +781,128 @@ function writeTrace(runDir: string, r: TestResult): void {
   );
 }
 
+// Provider endpoint and model id; aliases of one model share limits
+export function bucketKey(spec: ModelSpec): string {
+  const provider = spec.provider ?? { type: "openrouter" };
+  const endpoint =
+    provider.type === "openai-compatible" ? provider.baseURL : provider.type;
+  return `${endpoint}|${spec.provider_id}`;
+}
+
+function usageTokens(usage?: {
+  input_tokens?: number;
+  output_tokens?: number;
+}): number | undefined {
+  return usage
+    ? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0)
+    : undefined;
+}
+
 function sanitize(s: string): string {
   return s.replace(/[^a-zA-Z0-9_.-]/g, "_");
 }
 
-function summarize(results: TestResult[]): RunOutput["summary"] {
-  const byModel: Record<string, { tests: number; sum: number }> = {};
+function summarize(
+  results: TestResult[],
+  scoring: ScoringConfig,
+  statsOptions: StatsOptions
+): RunOutput["summary"] {
+  const byModel: Record<string, TestResult[]> = {};
   for (const r of results) {
     const key = r.model;
-    if (!byModel[key]) byModel[key] = { tests: 0, sum: 0 };
-    byModel[key].tests += 1;
-    byModel[key].sum += r.score;
+    if (!byModel[key]) byModel[key] = [];
+    byModel[key].push(r);
   }
   const summary: RunOutput["summary"] = {
     byModel: Object.fromEntries(
-      Object.entries(byModel).map(([k, v]) => [
+      Object.entries(byModel).map(([k, list]) => [
         k,
-        { tests: v.tests, avgScore: v.tests ? v.sum / v.tests : 0 },
+        {
+          tests: list.length,
+          avgScore: mean(scoredOnly(list).map((r) => r.score)),
+          ...aggregateScores(list, scoring),
+          ...unscoredCount(list),
+          outcomes: countOutcomes(list),
+          stats: computeStats(scoredOnly(list), statsOptions),
+          taskStats: Object.fromEntries(
+            [...new Set(scoredOnly(list).map((r) => r.task ?? "unknown"))].map(
+              (t) => [
+                t,
+                computeStats(
+                  scoredOnly(list).filter((r) => (r.task ?? "unknown") === t),
+                  statsOptions
+                ),
+              ]
+            )
+          ),
+          mcq: computeMcqStats(scoredOnly(list)),
+          latency: computeLatencyStats(list),
+        },
       ])
     ),
-    overallAvg: results.length
-      ? results.reduce((acc, r) => acc + r.score, 0) / results.length
-      : 0,
+    overallAvg: mean(scoredOnly(results).map((r) => r.score)),
   };
+  const modelScores = Object.values(summary.byModel).map((m) => m.score ?? 0);
+  summary.overallScore = modelScores.length
+    ? modelScores.reduce((a, b) => a + b, 0) / modelScores.length
+    : 0;
+  summary.byTask = aggregateScores(results, scoring).byTask;
+  summary.scoring = scoring;
   return summary;
 }
 
-function estimateTokens(text: string): number {
-  // Very rough heuristic: 1 token ~ 4 chars
-  const length = (text ?? "").length;
-  return Math.max(50, Math.ceil(length / 4) + 50);
+// Score per model × template, and per model × instruction language
+function summarizeTemplates(
+  results: TestResult[],
+  variantsByModel: Map<string, Variant[]>
+): Pick<RunOutput["summary"], "byTemplate" | "byLang"> {
+  const byTemplate: NonNullable<RunOutput["summary"]["byTemplate"]> = {};
+  const byLang: NonNullable<RunOutput["summary"]["byLang"]> = {};
+  for (const [model, variants] of variantsByModel) {
+    const own = results.filter((r) => r.model === model);
+    if (!own.length) continue;
+    byTemplate[model] = {};
+    const langScores: Record<string, number[]> = {};
+    for (const v of variants) {
+      const list = scoredOnly(own.filter((r) => r.template === v.name));
+      if (!list.length) continue;
+      const scores = list.map((r) => r.score);
+      byTemplate[model][v.name!] = {
+        lang: v.template?.lang,
+        tests: list.length,
+        avgScore: mean(scores),
+        ci95: computeStats(list).ci95,
+      };
+      if (v.template?.lang) {
+        (langScores[v.template.lang] ??= []).push(...scores);
+      }
+    }
+    byLang[model] = Object.fromEntries(
+      Object.entries(langScores).map(([lang, scores]) => [
+        lang,
+        { tests: scores.length, avgScore: mean(scores) },
+      ])
+    );
+  }
+  return { byTemplate, byLang };
+}
+
+// Results with a real score; see scoringFailed
+function scoredOnly(results: TestResult[]): TestResult[] {
+  return results.filter((r) => !scoringFailed(r));
+}
+
+function unscoredCount(results: TestResult[]): { unscored?: number } {
+  const n = results.length - scoredOnly(results).length;
+  return n ? { unscored: n } : {};
+}
+
+function countOutcomes(results: TestResult[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const r of results) {
+    if (r.outcome) counts[r.outcome] = (counts[r.outcome] ?? 0) + 1;
+  }
+  return counts;
 }
 
 async function withRetry<T>(fn: () => Promise<T>, retries: number): Promise<T> {
@@ -256,10 +914,12 @@ async function withRetry<T>(fn: () => Promise<T>, retries: number): Promise<T> {
       return await fn();
     } catch (err) {
       attempt += 1;
-      const status = (err as any)?.status ?? (err as any)?.response?.status;
+      const status = errorStatus(err);
       const retriable =
-        status === 429 || (typeof status === "number" && status >= 500);
+        status === 429 || (status !== undefined && status >= 500);
       if (!retriable || attempt > retries) throw err;
+      // The 429 paused the model's bucket for its Retry-After; queue again
+      if (status === 429) continue;
       const jitter = Math.floor(Math.random() * 200);
       await new Promise((r) => setTimeout(r, delay + jitter));
       delay = Math.min(8000, Math.round(delay * 2));
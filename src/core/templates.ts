@@ -0,0 +1,176 @@
+import { z } from "zod";
+import type { ChatMessage } from "../providers/openrouter";
+import {
+  buildMessages,
+  CONCISE_SYSTEM_PROMPT,
+  promptOf,
+  STRICT_SYSTEM_PROMPT,
+} from "./messages";
+import type { TestCase } from "./runner";
+
+/**
+ * A named rewording of what is sent for a test. `system` replaces the
+ * default system prompt and `prompt` the final user turn; both may use
+ * `{{field}}` placeholders (see renderTemplate).
+ */
+export const PromptTemplateSchema = z
+  .object({
+    // Instruction language, e.g. "en" or "mi"; reports group by it
+    lang: z.string().min(1).optional(),
+    description: z.string().optional(),
+    system: z.string().min(1).optional(),
+    prompt: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+export const TemplateMapSchema = z.record(PromptTemplateSchema);
+
+export type TemplateMap = z.infer<typeof TemplateMapSchema>;
+
+// Results without a template ran under this one
+export const DEFAULT_TEMPLATE = "default";
+
+// Available everywhere; suites and models may redefine them
+export const BUILTIN_TEMPLATES: TemplateMap = {
+  [DEFAULT_TEMPLATE]: {
+    lang: "en",
+    description: "Strict or concise system prompt by evaluator (no template)",
+  },
+  "en-strict": {
+    lang: "en",
+    description: "English 'answer only' system prompt for every test",
+    system: STRICT_SYSTEM_PROMPT,
+  },
+  "mi-strict": {
+    lang: "mi",
+    description: "Māori 'answer only' system prompt for every test",
+    system:
+      "He kaiāwhina koe. Ko te whakautu anake tāu e tuhi, kaua he aha atu. Kaua e tāpiri he kupu whakataki, he horopaki, he kōrero āpiti rānei.",
+  },
+  "en-concise": {
+    lang: "en",
+    description: "English 'respond concisely' system prompt for every test",
+    system: CONCISE_SYSTEM_PROMPT,
+  },
+  "mi-concise": {
+    lang: "mi",
+    description: "Māori 'respond concisely' system prompt for every test",
+    system: "He kaiāwhina koe. Kia poto tō whakautu.",
+  },
+};
+
+/**
+ * Looks a template up by name: the model's own definitions first, then the
+ * suite's, then the built-ins.
+ */
+export function resolveTemplate(
+  name: string,
+  sources: { model?: TemplateMap; suite?: TemplateMap }
+): PromptTemplate {
+  const template =
+    sources.model?.[name] ?? sources.suite?.[name] ?? BUILTIN_TEMPLATES[name];
+  if (!template) {
+    const known = [
+      ...new Set([
+        ...Object.keys(sources.model ?? {}),
+        ...Object.keys(sources.suite ?? {}),
+        ...Object.keys(BUILTIN_TEMPLATES),
+      ]),
+    ];
+    throw new Error(
+      `Unknown prompt template "${name}" (available: ${known.join(", ")})`
+    );
+  }
+  return template;
+}
+
+/**
+ * Fills `{{path}}` placeholders from the test: `prompt` is the test's final
+ * user turn, other paths are read from the test (e.g. `task`,
+ * `metadata.prompt_mi`). `{{a|b}}` falls back to `b` when the test has no
+ * `a`. A placeholder the test cannot fill is an error.
+ */
+export function renderTemplate(
+  text: string,
+  test: TestCase,
+  templateName = "template"
+): string {
+  return text.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (match, expr: string) => {
+    for (const path of expr.split("|").map((p) => p.trim())) {
+      const value = lookup(test, path);
+      if (value !== undefined) return value;
+    }
+    throw new Error(
+      `Template "${templateName}" uses ${match}, which test "${test.id}" does not set`
+    );
+  });
+}
+
+/** `messages` with the template's system prompt and final user turn swapped in. */
+export function applyTemplate(
+  messages: ChatMessage[],
+  test: TestCase,
+  template: PromptTemplate,
+  name?: string
+): ChatMessage[] {
+  const out = [...messages];
+  // A test's own system prompt is part of the test and is kept
+  const ownSystem =
+    test.system !== undefined ||
+    test.messages?.some((m) => m.role === "system");
+  if (template.system && !ownSystem) {
+    const content = renderTemplate(template.system, test, name);
+    if (out[0]?.role === "system") out[0] = { role: "system", content };
+    else out.unshift({ role: "system", content });
+  }
+  if (template.prompt) {
+    let last = out.length - 1;
+    while (last >= 0 && out[last]!.role !== "user") last--;
+    if (last >= 0) {
+      out[last] = {
+        role: "user",
+        content: renderTemplate(template.prompt, test, name),
+      };
+    }
+  }
+  return out;
+}
+
+/**
+ * Throws on the first template name a model cannot resolve, or placeholder
+ * a test cannot fill, so a run fails before anything is sent.
+ */
+export function checkTemplates(
+  tests: TestCase[],
+  models: { templates?: TemplateMap }[],
+  names: string[],
+  suiteTemplates?: TemplateMap
+): void {
+  for (const model of models) {
+    for (const name of names) {
+      const template = resolveTemplate(name, {
+        model: model.templates,
+        suite: suiteTemplates,
+      });
+      for (const test of tests) {
+        applyTemplate(buildMessages(test), test, template, name);
+      }
+    }
+  }
+}
+
+function lookup(test: TestCase, path: string): string | undefined {
+  if (path === "prompt") return promptOf(test);
+  let value: unknown = test;
+  for (const key of path.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return undefined;
+}
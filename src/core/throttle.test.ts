@@ -0,0 +1,223 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createLimiter,
+  isCancelled,
+  retryAfterMs,
+  type Clock,
+} from "./throttle";
+
+// Timers fire only when the test advances the clock
+function fakeClock() {
+  let now = 0;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; fn: () => void }>();
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (fn, ms) => {
+      timers.set(nextId, { at: now + ms, fn });
+      return nextId++;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+  };
+  async function advance(ms: number): Promise<void> {
+    const end = now + ms;
+    await flush();
+    for (;;) {
+      const due = [...timers.entries()]
+        .filter(([, t]) => t.at <= end)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].fn();
+      await flush();
+    }
+    now = end;
+    await flush();
+  }
+  return { clock, advance };
+}
+
+// Lets settled calls run their callbacks
+const flush = () => new Promise<void>((r) => setImmediate(r));
+
+function limiterWith(opts: Partial<Parameters<typeof createLimiter>[0]> = {}) {
+  const { clock, advance } = fakeClock();
+  const limiter = createLimiter({
+    maxConcurrent: 10,
+    maxRequestsPerMinute: 1000,
+    maxTokensPerMinute: 1_000_000,
+    clock,
+    ...opts,
+  });
+  // Start times of every call, by label
+  const started: { label: string; at: number }[] = [];
+  const call =
+    <T>(label: string, result: () => Promise<T>) =>
+    () => {
+      started.push({ label, at: clock.now() });
+      return result();
+    };
+  return { limiter, clock, advance, started, call };
+}
+
+const ok = () => Promise.resolve("ok");
+const status = (code: number, headers?: Record<string, string>) => () =>
+  Promise.reject(
+    Object.assign(new Error(`HTTP ${code}`), { status: code, headers })
+  );
+
+describe("createLimiter", () => {
+  test("holds calls over the RPM until the window rolls", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m", { rpm: 2 });
+    for (const label of ["a", "b", "c"]) b.schedule(call(label, ok));
+    await advance(0);
+    expect(started.map((s) => s.label)).toEqual(["a", "b"]);
+    await advance(59_999);
+    expect(started).toHaveLength(2);
+    await advance(1);
+    expect(started[2]).toEqual({ label: "c", at: 60_000 });
+  });
+
+  test("holds calls over the TPM until the window rolls", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m", { tpm: 1000 });
+    b.schedule(call("a", ok), { tokens: 600 });
+    b.schedule(call("b", ok), { tokens: 600 });
+    await advance(30_000);
+    expect(started.map((s) => s.label)).toEqual(["a"]);
+    await advance(30_000);
+    expect(started[1]).toEqual({ label: "b", at: 60_000 });
+  });
+
+  test("replaces the token estimate with reported usage", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m", { tpm: 1000 });
+    b.schedule(call("a", ok), { tokens: 600, usage: () => 100 });
+    b.schedule(call("b", ok), { tokens: 600 });
+    await advance(0);
+    expect(started).toEqual([
+      { label: "a", at: 0 },
+      { label: "b", at: 0 },
+    ]);
+  });
+
+  test("runs a call larger than the TPM alone", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m", { tpm: 100 });
+    b.schedule(call("big", ok), { tokens: 500 });
+    await advance(0);
+    expect(started).toHaveLength(1);
+  });
+
+  test("pauses a bucket for the Retry-After of a 429", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m");
+    const limited = b.schedule(call("a", status(429, { "retry-after": "5" })));
+    await expect(limited).rejects.toThrow("HTTP 429");
+    b.schedule(call("b", ok));
+    await advance(4_999);
+    expect(started).toHaveLength(1);
+    await advance(1);
+    expect(started[1]).toEqual({ label: "b", at: 5_000 });
+  });
+
+  test("throttles each bucket on its own", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const slow = limiter.bucket("slow", { rpm: 1 });
+    const fast = limiter.bucket("fast");
+    slow.schedule(call("slow-1", ok));
+    slow.schedule(call("slow-2", ok));
+    fast.schedule(call("fast-1", ok));
+    fast.schedule(call("fast-2", ok));
+    await advance(0);
+    expect(started.map((s) => s.label)).toEqual(["slow-1", "fast-1", "fast-2"]);
+  });
+
+  test("caps calls in flight per bucket", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m", { concurrency: 1 });
+    let finish!: () => void;
+    const pending = new Promise<string>((r) => (finish = () => r("ok")));
+    b.schedule(call("a", () => pending));
+    b.schedule(call("b", ok));
+    await advance(1_000);
+    expect(started).toHaveLength(1);
+    finish();
+    await advance(0);
+    expect(started[1]).toEqual({ label: "b", at: 1_000 });
+  });
+
+  test("opens the breaker, probes after the cooldown, then stops", async () => {
+    const { limiter, advance, started, call } = limiterWith({
+      breakerFailures: 2,
+      breakerCooldownMs: 30_000,
+    });
+    // One call at a time, so each failure lands before the next call starts
+    const b = limiter.bucket("m", { concurrency: 1 });
+    const results = ["a", "b", "c", "d"].map((label) =>
+      b.schedule(call(label, status(500))).catch((e: Error) => e.message)
+    );
+    await advance(0);
+    // Closed -> open after two failures: the rest wait out the cooldown
+    expect(started.map((s) => s.label)).toEqual(["a", "b"]);
+    expect(limiter.circuits()).toMatchObject([
+      { key: "m", state: "paused", failures: 2 },
+    ]);
+    await advance(30_000);
+    // One probe, alone; it fails too, so the queued call is refused
+    expect(started.map((s) => s.label)).toEqual(["a", "b", "c"]);
+    expect(await results[3]).toStartWith("Circuit open for m");
+    expect(limiter.circuits()).toMatchObject([
+      { key: "m", state: "stopped", rejected: 1 },
+    ]);
+    await expect(b.schedule(ok)).rejects.toThrow("Circuit open");
+  });
+
+  test("closes the breaker when the probe succeeds", async () => {
+    const { limiter, advance, started, call } = limiterWith({
+      breakerFailures: 1,
+      breakerCooldownMs: 10_000,
+    });
+    const b = limiter.bucket("m", { concurrency: 1 });
+    b.schedule(call("a", status(503))).catch(() => {});
+    const probe = b.schedule(call("b", ok));
+    const after = b.schedule(call("c", ok));
+    await advance(10_000);
+    expect(await probe).toBe("ok");
+    expect(await after).toBe("ok");
+    expect(started.map((s) => s.at)).toEqual([0, 10_000, 10_000]);
+    expect(limiter.circuits()).toMatchObject([{ state: "recovered" }]);
+  });
+
+  test("cancel refuses queued and later calls without starting them", async () => {
+    const { limiter, advance, started, call } = limiterWith();
+    const b = limiter.bucket("m", { rpm: 1 });
+    const first = b.schedule(call("a", ok));
+    const queued = b.schedule(call("b", ok));
+    await advance(0);
+    limiter.cancel("Budget reached");
+    expect(await first).toBe("ok");
+    const refused = await queued.catch((e) => e);
+    expect(isCancelled(refused)).toBe(true);
+    expect(isCancelled(await b.schedule(ok).catch((e) => e))).toBe(true);
+    await advance(120_000);
+    expect(started.map((s) => s.label)).toEqual(["a"]);
+  });
+});
+
+describe("retryAfterMs", () => {
+  test("reads retry-after-ms, seconds and HTTP dates", () => {
+    const err = (headers: Record<string, string>) => ({ status: 429, headers });
+    expect(retryAfterMs(err({ "retry-after-ms": "250" }), 0)).toBe(250);
+    expect(retryAfterMs(err({ "retry-after": "2" }), 0)).toBe(2000);
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(
+      retryAfterMs(err({ "retry-after": "Thu, 01 Jan 2026 00:00:03 GMT" }), now)
+    ).toBe(3000);
+    expect(retryAfterMs(err({}), 0)).toBeUndefined();
+  });
+});
@@ -1,75 +1,353 @@
+import { z } from "zod";
+
+// Per-model overrides in models.config.json; unset limits use the run's
+export const RateLimitsSchema = z
+  .object({
+    rpm: z.number().int().positive().optional(),
+    tpm: z.number().int().positive().optional(),
+    concurrency: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export type RateLimits = z.infer<typeof RateLimitsSchema>;
+
 type LimiterOptions = {
+  // Calls in flight across every bucket
   maxConcurrent: number;
+  // Defaults for buckets whose model sets no `limits`
   maxRequestsPerMinute: number;
   maxTokensPerMinute: number;
+  // Consecutive failed calls that pause a bucket (0: never)
+  breakerFailures?: number;
+  // How long a tripped bucket stays paused before one probe call
+  breakerCooldownMs?: number;
+  clock?: Clock;
 };
 
-type Scheduled<T> = () => Promise<T>;
+/** Time source and timers; tests pass a fake one. */
+export type Clock = {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+};
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export type ScheduleOptions<T> = {
+  // Counted against the bucket's TPM until the call reports real usage
+  tokens?: number;
+  // Tokens the call actually used, replacing the estimate
+  usage?: (result: T) => number | undefined;
+};
+
+export type Bucket = {
+  schedule<T>(fn: () => Promise<T>, opts?: ScheduleOptions<T>): Promise<T>;
+};
+
+/** A bucket whose circuit breaker opened during the run. */
+export type CircuitReport = {
+  key: string;
+  // "paused" while cooling down or probing, "stopped" when the probe failed
+  // too, "recovered" when a probe succeeded
+  state: "paused" | "stopped" | "recovered";
+  failures: number;
+  lastError: string;
+  // Calls refused without being sent
+  rejected: number;
+};
 
 export type Limiter = {
-  schedule<T>(fn: Scheduled<T>, estimatedTokens?: number): Promise<T>;
+  // The bucket for `key`, created with `limits` on first use
+  bucket(key: string, limits?: RateLimits): Bucket;
+  circuits(): CircuitReport[];
+  // Rejects every queued call, and every call scheduled after, without
+  // sending it or taking a slot; calls in flight still finish
+  cancel(reason: string): void;
+};
+
+// What the limiter counts against --max-tpm for a prompt; also used to plan runs
+export function estimateTokens(text: string): number {
+  // Very rough heuristic: 1 token ~ 4 chars
+  const length = (text ?? "").length;
+  return Math.max(50, Math.ceil(length / 4) + 50);
+}
+
+type Scheduled<T> = () => Promise<T>;
+
+type BucketState = {
+  key: string;
+  rpm: number;
+  tpm: number;
+  concurrency: number;
+  active: number;
+  requests: number[];
+  tokens: { t: number; tokens: number }[];
+  // No calls start before this (Retry-After, breaker cooldown)
+  pausedUntil: number;
+  failures: number;
+  circuit: "closed" | "open" | "probing" | "stopped";
+  report?: CircuitReport;
+};
+
+type QueueItem = {
+  bucket: BucketState;
+  fn: Scheduled<unknown>;
+  resolve: (v: unknown) => void;
+  reject: (e: unknown) => void;
+  tokens: number;
+  usage?: (result: unknown) => number | undefined;
 };
 
+const WINDOW_MS = 60_000;
+// Pause after a 429 that carries no Retry-After
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+/**
+ * Rate limiter with one bucket per provider/model. Each bucket enforces its
+ * own RPM/TPM window and concurrency, so a throttled model never holds up
+ * the others; `maxConcurrent` caps calls in flight overall. A 429 pauses its
+ * bucket for the Retry-After the provider sent, and `breakerFailures`
+ * consecutive failures open the bucket's circuit: it waits out the
+ * cooldown, sends one probe, and refuses its remaining calls if that fails.
+ */
 export function createLimiter(opts: LimiterOptions): Limiter {
-  const queue: {
-    fn: Scheduled<unknown>;
-    resolve: (v: unknown) => void;
-    reject: (e: unknown) => void;
-    tokens: number;
-  }[] = [];
+  const clock = opts.clock ?? systemClock;
+  const buckets = new Map<string, BucketState>();
+  const queue: QueueItem[] = [];
   let active = 0;
-  const windowMs = 60_000;
-  const requestsTimestamps: number[] = [];
-  const tokensTimestamps: { t: number; tokens: number }[] = [];
-
-  function prune(now: number): void {
-    while (requestsTimestamps.length && now - requestsTimestamps[0] > windowMs)
-      requestsTimestamps.shift();
-    while (tokensTimestamps.length && now - tokensTimestamps[0].t > windowMs)
-      tokensTimestamps.shift();
+  let timer: unknown;
+  let cancelled: Error | undefined;
+
+  function bucket(key: string, limits?: RateLimits): Bucket {
+    let state = buckets.get(key);
+    if (!state) {
+      state = {
+        key,
+        rpm: limits?.rpm ?? opts.maxRequestsPerMinute,
+        tpm: limits?.tpm ?? opts.maxTokensPerMinute,
+        concurrency: limits?.concurrency ?? opts.maxConcurrent,
+        active: 0,
+        requests: [],
+        tokens: [],
+        pausedUntil: 0,
+        failures: 0,
+        circuit: "closed",
+      };
+      buckets.set(key, state);
+    }
+    const b = state;
+    return {
+      schedule<T>(fn: Scheduled<T>, so?: ScheduleOptions<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+          if (cancelled) return reject(cancelled);
+          queue.push({
+            bucket: b,
+            fn,
+            resolve: resolve as (v: unknown) => void,
+            reject,
+            tokens: so?.tokens ?? 500,
+            usage: so?.usage as QueueItem["usage"],
+          });
+          pump();
+        });
+      },
+    };
   }
 
-  async function runNext(): Promise<void> {
-    if (active >= opts.maxConcurrent) return;
-    const item = queue.shift();
-    if (!item) return;
-    const now = Date.now();
-    prune(now);
-
-    const pendingRequests = requestsTimestamps.length;
-    const tokensUsed = tokensTimestamps.reduce((acc, e) => acc + e.tokens, 0);
-
-    // throttle if needed
-    if (
-      pendingRequests >= opts.maxRequestsPerMinute ||
-      tokensUsed + item.tokens > opts.maxTokensPerMinute
-    ) {
-      // put back and try later
-      queue.unshift(item);
-      setTimeout(runNext, 250);
-      return;
+  function prune(b: BucketState, now: number): void {
+    while (b.requests.length && now - b.requests[0]! >= WINDOW_MS)
+      b.requests.shift();
+    while (b.tokens.length && now - b.tokens[0]!.t >= WINDOW_MS)
+      b.tokens.shift();
+  }
+
+  // When the bucket can start a call of `tokens`: `now` if it can,
+  // Infinity when only a finishing call can free it
+  function readyAt(b: BucketState, now: number, tokens: number): number {
+    if (b.pausedUntil > now) return b.pausedUntil;
+    if (b.circuit === "probing" || b.active >= b.concurrency) return Infinity;
+    prune(b, now);
+    let at = now;
+    if (b.requests.length >= b.rpm) {
+      at = Math.max(at, b.requests[b.requests.length - b.rpm]! + WINDOW_MS);
+    }
+    let used = b.tokens.reduce((acc, e) => acc + e.tokens, 0);
+    // A call larger than the whole budget still runs, alone
+    for (const e of b.tokens) {
+      if (used + tokens <= b.tpm) break;
+      used -= e.tokens;
+      at = Math.max(at, e.t + WINDOW_MS);
+    }
+    return at;
+  }
+
+  // Starts every queued call that may run now, oldest first per bucket,
+  // then sleeps until the next bucket frees up
+  function pump(): void {
+    if (timer !== undefined) clock.clearTimeout(timer);
+    timer = undefined;
+    const now = clock.now();
+    const blocked = new Set<BucketState>();
+    let wake = Infinity;
+    for (let i = 0; i < queue.length && active < opts.maxConcurrent; ) {
+      const item = queue[i]!;
+      const b = item.bucket;
+      if (b.circuit === "stopped") {
+        queue.splice(i, 1);
+        b.report!.rejected += 1;
+        item.reject(
+          new Error(
+            `Circuit open for ${b.key}: paused after ${
+              b.report!.failures
+            } consecutive failures (last: ${b.report!.lastError})`
+          )
+        );
+        continue;
+      }
+      if (blocked.has(b)) {
+        i++;
+        continue;
+      }
+      const at = readyAt(b, now, item.tokens);
+      if (at > now) {
+        blocked.add(b);
+        wake = Math.min(wake, at);
+        i++;
+        continue;
+      }
+      queue.splice(i, 1);
+      start(item, now);
+    }
+    if (wake < Infinity) {
+      timer = clock.setTimeout(() => {
+        timer = undefined;
+        pump();
+      }, wake - now);
     }
+  }
 
+  function start(item: QueueItem, now: number): void {
+    const b = item.bucket;
+    if (b.circuit === "open") b.circuit = "probing";
     active += 1;
-    requestsTimestamps.push(now);
-    tokensTimestamps.push({ t: now, tokens: item.tokens });
-    try {
-      const val = await item.fn();
-      item.resolve(val);
-    } catch (err) {
-      item.reject(err);
-    } finally {
-      active -= 1;
-      setImmediate(runNext);
+    b.active += 1;
+    b.requests.push(now);
+    const entry = { t: now, tokens: item.tokens };
+    b.tokens.push(entry);
+    // A function that throws before returning a promise fails like a call
+    Promise.resolve()
+      .then(item.fn)
+      .then(
+        (val) => {
+          const actual = item.usage?.(val);
+          if (actual !== undefined) entry.tokens = actual;
+          b.failures = 0;
+          if (b.circuit === "probing") {
+            b.circuit = "closed";
+            b.report!.state = "recovered";
+          }
+          settle(b);
+          item.resolve(val);
+        },
+        (err) => {
+          fail(b, err);
+          settle(b);
+          item.reject(err);
+        }
+      );
+  }
+
+  function settle(b: BucketState): void {
+    active -= 1;
+    b.active -= 1;
+    pump();
+  }
+
+  function fail(b: BucketState, err: unknown): void {
+    const now = clock.now();
+    if (errorStatus(err) === 429) {
+      // Rate limited, not broken: wait as asked and leave the breaker alone
+      const wait = retryAfterMs(err, now) ?? DEFAULT_RETRY_AFTER_MS;
+      b.pausedUntil = Math.max(b.pausedUntil, now + wait);
+      if (b.circuit === "probing") b.circuit = "open";
+      return;
+    }
+    b.failures += 1;
+    const threshold = opts.breakerFailures ?? 0;
+    if (!threshold) return;
+    const message = err instanceof Error ? err.message : String(err);
+    if (b.circuit === "probing") {
+      b.circuit = "stopped";
+      b.report = { ...b.report!, state: "stopped", lastError: message };
+    } else if (b.circuit === "closed" && b.failures >= threshold) {
+      b.circuit = "open";
+      b.pausedUntil = Math.max(
+        b.pausedUntil,
+        now + (opts.breakerCooldownMs ?? 30_000)
+      );
+      b.report = {
+        key: b.key,
+        state: "paused",
+        failures: b.failures,
+        lastError: message,
+        rejected: b.report?.rejected ?? 0,
+      };
     }
   }
 
-  function schedule<T>(fn: Scheduled<T>, estimatedTokens = 500): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      queue.push({ fn, resolve, reject, tokens: estimatedTokens });
-      setImmediate(runNext);
-    });
+  function circuits(): CircuitReport[] {
+    return [...buckets.values()]
+      .filter((b) => b.report)
+      .map((b) => ({ ...b.report! }));
   }
 
-  return { schedule };
+  function cancel(reason: string): void {
+    cancelled ??= Object.assign(new Error(reason), { cancelled: true });
+    if (timer !== undefined) clock.clearTimeout(timer);
+    timer = undefined;
+    for (const item of queue.splice(0)) item.reject(cancelled);
+  }
+
+  return { bucket, circuits, cancel };
+}
+
+// Whether a call was refused by `Limiter.cancel`
+export function isCancelled(err: unknown): boolean {
+  return (err as { cancelled?: unknown })?.cancelled === true;
+}
+
+// HTTP status of a provider error, when it has one
+export function errorStatus(err: unknown): number | undefined {
+  const e = err as { status?: unknown; response?: { status?: unknown } };
+  const status = e?.status ?? e?.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Milliseconds a 429 asks us to wait, from `retry-after-ms` or
+ * `retry-after` (seconds or an HTTP date) on the error's headers.
+ */
+export function retryAfterMs(err: unknown, now: number): number | undefined {
+  const headers = (err as { headers?: unknown })?.headers;
+  const get = (name: string): string | undefined => {
+    if (!headers || typeof headers !== "object") return undefined;
+    if (typeof (headers as Headers).get === "function") {
+      return (headers as Headers).get(name) ?? undefined;
+    }
+    const v = (headers as Record<string, unknown>)[name];
+    return typeof v === "string" ? v : undefined;
+  };
+  const ms = Number(get("retry-after-ms"));
+  if (get("retry-after-ms") && Number.isFinite(ms)) return Math.max(0, ms);
+  const value = get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
 }
@@ -1,83 +1,61 @@
-import { z } from "zod";
 import type { TestCase } from "../core/runner";
 import type { OpenRouterClient } from "../providers/openrouter";
-import { normalizeText } from "./normalize";
+import type { Pricing, TokenUsage } from "../scoring/cost";
+import { evaluateExact } from "./strategies/exact";
+import { evaluateRegex } from "./strategies/regex";
+import { evaluateDistance } from "./strategies/distance";
+import { evaluateChrf } from "./strategies/chrf";
+import { evaluateMcq } from "./strategies/mcq";
+import { evaluateLLMJudge, type JudgeConfig } from "./strategies/judge";
+
+export type JudgeHandle = {
+  name: string;
+  model: string; // provider id sent to the client
+  client: OpenRouterClient;
+  pricing?: Pricing;
+};
+
+export type EvalContext = {
+  judge: {
+    // Suite-wide judge settings; a test's `eval.judge` overrides them
+    defaults?: JudgeConfig;
+    // Resolves a judge model name or provider id (undefined: the run default)
+    get(model?: string): JudgeHandle;
+  };
+};
+
+export type Evaluation = {
+  score: number; // 0..1
+  // Evaluator-specific label, e.g. "exact" | "macron-only" | "wrong"
+  outcome?: string;
+  details?: Record<string, unknown>;
+  // Spent by calls the evaluator made itself (judges)
+  usage?: TokenUsage;
+};
 
 export async function evaluateTest(
   test: TestCase,
   modelResponse: string,
-  client: OpenRouterClient
-): Promise<number> {
+  ctx: EvalContext
+): Promise<Evaluation> {
   const evalType = test.eval?.type;
   if (evalType === "exact") {
     return evaluateExact(test, modelResponse);
   }
   if (evalType === "llm-judge") {
-    return evaluateLLMJudge(test, modelResponse, client);
+    return evaluateLLMJudge(test, modelResponse, ctx);
   }
-  return 0;
-}
-
-function evaluateExact(test: TestCase, modelResponse: string): number {
-  const schema = z.object({
-    normalize: z
-      .object({
-        macrons: z.boolean().optional(),
-        case: z.enum(["insensitive", "sensitive"]).optional(),
-      })
-      .optional(),
-  });
-  const cfg = schema.safeParse(test.eval);
-  const norm = cfg.success ? cfg.data.normalize ?? {} : {};
-  const expected = Array.isArray(test.expected)
-    ? (test.expected as unknown[]).map(String)
-    : [String(test.expected ?? "")];
-
-  const candidate = normalizeText(modelResponse, norm);
-  for (const e of expected) {
-    const ee = normalizeText(String(e), norm);
-    if (ee === candidate) return 1;
+  if (evalType === "regex") {
+    return evaluateRegex(test, modelResponse);
   }
-  return 0;
-}
-
-async function evaluateLLMJudge(
-  test: TestCase,
-  modelResponse: string,
-  client: OpenRouterClient
-): Promise<number> {
-  // Very light-weight judging: ask the model to rate 0..1.
-  const prompt = `You are evaluating an answer for a Māori language test.
-Provide a single number between 0 and 1 representing correctness.
-
-Question prompt:
-${test.prompt}
-
-Model answer:
-${modelResponse}
-
-Expected (may be array):
-${JSON.stringify(test.expected)}
-
-Return only the number.`;
-  const { text } = await client.complete({
-    model: "openai/o3",
-    messages: [
-      {
-        role: "system",
-        content:
-          "You are a strict grader of Māori language answers. Ignore harmless formatting like quotes, trailing punctuation, or prefatory phrases (e.g., 'The answer is'). Grade semantic and orthographic correctness only. Output a single number between 0 and 1.",
-      },
-      { role: "user", content: prompt },
-    ],
-    params: { temperature: 0 },
-  });
-  const m = text.match(/[01](?:\.\d+)?/);
-  const val = m ? Number(m[0]) : 0;
-  if (Number.isNaN(val)) return 0;
-  return Math.max(0, Math.min(1, val));
-}
-
-function escapeRegex(input: string): string {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (evalType === "distance") {
+    return evaluateDistance(test, modelResponse);
+  }
+  if (evalType === "chrf") {
+    return evaluateChrf(test, modelResponse);
+  }
+  if (evalType === "mcq") {
+    return evaluateMcq(test, modelResponse);
+  }
+  return { score: 0 };
 }
@@ -0,0 +1,8 @@
+import type { TestCase } from "../core/runner";
+
+// `expected` may be a single answer or a list of accepted variants
+export function expectedVariants(test: TestCase): string[] {
+  return Array.isArray(test.expected)
+    ? (test.expected as unknown[]).map(String)
+    : [String(test.expected ?? "")];
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { extractAnswer, parseExtractSteps } from "./extract";
+
+describe("extractAnswer", () => {
+  test("drops reasoning blocks, or everything before a lone closing tag", () => {
+    expect(
+      extractAnswer("<think>hmm</think>\nKia ora", ["strip-reasoning"])
+    ).toBe("Kia ora");
+    expect(
+      extractAnswer("thinking...</Reasoning> Tēnā koe", ["strip-reasoning"])
+    ).toBe("Tēnā koe");
+  });
+
+  test("keeps the last fenced block without its language tag", () => {
+    const text = "First:\n```\nold\n```\nThen:\n```text\nKia ora\n```";
+    expect(extractAnswer(text, ["strip-code-fence"])).toBe("Kia ora");
+  });
+
+  test("takes the last non-empty line", () => {
+    expect(extractAnswer("Working...\n\nB\n\n", ["final-line"])).toBe("B");
+  });
+
+  test("strips English and Māori preambles, repeatedly", () => {
+    const steps = ["strip-preamble" as const];
+    expect(extractAnswer("**Answer:** **whare**", steps)).toBe("whare");
+    expect(extractAnswer("Answer: The answer is whare", steps)).toBe("whare");
+    expect(extractAnswer("Ko te whakautu ko: whare", steps)).toBe("whare");
+    // Only at a word boundary
+    expect(extractAnswer("Answering is hard", steps)).toBe("Answering is hard");
+  });
+
+  test("takes the last quoted span, not apostrophes", () => {
+    const steps = ["last-quoted" as const];
+    expect(extractAnswer('It is "whare", or “kāinga”.', steps)).toBe("kāinga");
+    expect(extractAnswer("Māori don't say 'kia ora' there", steps)).toBe(
+      "kia ora"
+    );
+    expect(extractAnswer("it's fine", steps)).toBe("it's fine");
+  });
+
+  test("keeps a regex capture and passes text through on no match", () => {
+    const step = { regex: "answer:\\s*(\\w+)" };
+    expect(extractAnswer("Final ANSWER: B", [step])).toBe("B");
+    expect(extractAnswer("no match", [step])).toBe("no match");
+    const named = { regex: "(?<pick>[A-D])\\)", group: "pick" };
+    expect(extractAnswer("I choose C)", [named])).toBe("C");
+  });
+
+  test("applies steps in order", () => {
+    const text = "<think>A or B?</think>\nLet me see.\nThe answer is: **B**";
+    expect(
+      extractAnswer(text, ["strip-reasoning", "final-line", "strip-preamble"])
+    ).toBe("B");
+  });
+});
+
+describe("parseExtractSteps", () => {
+  test("parses a comma list, with none for no steps", () => {
+    expect(parseExtractSteps("strip-reasoning, final-line")).toEqual([
+      "strip-reasoning",
+      "final-line",
+    ]);
+    expect(parseExtractSteps("none")).toEqual([]);
+  });
+
+  test("rejects unknown steps", () => {
+    expect(() => parseExtractSteps("final-line,last-word")).toThrow(
+      'Unknown extract step "last-word"'
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { z } from "zod";
+
+export const EXTRACT_STEP_NAMES = [
+  "strip-reasoning",
+  "strip-code-fence",
+  "final-line",
+  "strip-preamble",
+  "last-quoted",
+] as const;
+
+export const ExtractStepSchema = z.union([
+  z.enum(EXTRACT_STEP_NAMES),
+  z
+    .object({
+      // Keeps the capture when the pattern matches; no-op otherwise
+      regex: z.string().min(1),
+      flags: z.string().optional(),
+      // Capture group (default: 1 when the pattern has one, else the match)
+      group: z.union([z.number().int().min(0), z.string().min(1)]).optional(),
+    })
+    .strict(),
+]);
+
+export type ExtractStep = z.infer<typeof ExtractStepSchema>;
+
+export const ExtractSchema = z
+  .array(ExtractStepSchema)
+  .superRefine((steps, ctx) => {
+    steps.forEach((step, i) => {
+      if (typeof step === "string") return;
+      try {
+        new RegExp(step.regex, step.flags ?? "iu");
+      } catch (err) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, "regex"],
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+  });
+
+// Used when neither the test nor the run sets `extract`
+export const DEFAULT_EXTRACT: ExtractStep[] = ["strip-reasoning"];
+
+const REASONING_TAGS = ["think", "thinking", "reasoning", "reflection"];
+
+// Lead-ins models put before the answer, English and Māori; matched
+// case-insensitively at the start, with any trailing ":" or "-"
+const PREAMBLES = [
+  "here is the translation",
+  "here's the translation",
+  "the translation is",
+  "translation",
+  "the correct answer is",
+  "the answer is",
+  "final answer",
+  "answer",
+  "ko te whakautu tika ko",
+  "ko te whakautu ko",
+  "ko te whakautu",
+  "te whakautu",
+  "whakautu",
+  "ko te whakamāoritanga",
+  "whakamāoritanga",
+];
+
+/**
+ * Runs the response through each step in order. Every step is a no-op when
+ * it does not apply, so a pipeline never makes an answer harder to score.
+ */
+export function extractAnswer(response: string, steps: ExtractStep[]): string {
+  let out = response;
+  for (const step of steps) out = applyStep(out, step).trim();
+  return out;
+}
+
+function applyStep(text: string, step: ExtractStep): string {
+  if (typeof step !== "string") return captureRegex(text, step);
+  switch (step) {
+    case "strip-reasoning":
+      return stripReasoning(text);
+    case "strip-code-fence":
+      return stripCodeFence(text);
+    case "final-line":
+      return finalLine(text);
+    case "strip-preamble":
+      return stripPreamble(text);
+    case "last-quoted":
+      return lastQuoted(text);
+  }
+}
+
+// Drops <think>…</think>-style blocks; with only a closing tag left (the
+// opening one is often omitted), keeps what follows it
+function stripReasoning(text: string): string {
+  let out = text;
+  for (const tag of REASONING_TAGS) {
+    out = out.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, "gi"), "");
+    const close = out.toLowerCase().lastIndexOf(`</${tag}>`);
+    if (close >= 0) out = out.slice(close + tag.length + 3);
+  }
+  return out;
+}
+
+// Contents of the last fenced block, language tag dropped
+function stripCodeFence(text: string): string {
+  const blocks = [...text.matchAll(/```[^\n`]*\n?([\s\S]*?)```/g)];
+  const last = blocks[blocks.length - 1];
+  return last ? last[1]! : text;
+}
+
+function finalLine(text: string): string {
+  const lines = text.split("\n").filter((l) => l.trim());
+  return lines[lines.length - 1] ?? text;
+}
+
+function stripPreamble(text: string): string {
+  let out = text.trim();
+  let stripped = false;
+  // Repeated, so "Answer: The answer is X" is reduced too
+  for (let changed = true; changed; ) {
+    changed = false;
+    const body = out.replace(/^[*_#>\s]+/, "");
+    const lower = body.toLocaleLowerCase();
+    for (const p of PREAMBLES) {
+      if (!lower.startsWith(p)) continue;
+      const rest = body.slice(p.length);
+      // Must end at a word boundary, e.g. not "answering"
+      if (/^\p{L}/u.test(rest)) continue;
+      const next = rest.replace(/^[*_\s]*[:\-–—]?[*_\s]*/, "");
+      if (next && next !== out) {
+        out = next;
+        changed = stripped = true;
+      }
+      break;
+    }
+  }
+  // Emphasis left over from "**Answer:** **X**"
+  return stripped ? out.replace(/^[*_]+|[*_]+$/g, "") : out;
+}
+
+// Last span in double, curly or guillemet quotes, or straight single quotes
+// that sit on word edges (so apostrophes are not taken as quotes)
+function lastQuoted(text: string): string {
+  const re =
+    /"([^"\n]+)"|“([^”\n]+)”|‘([^’\n]+)’|«([^»\n]+)»|(?:^|[\s(])'([^'\n]+)'(?=$|[\s.,;:!?)])/g;
+  let last: string | undefined;
+  for (const m of text.matchAll(re)) {
+    last = m.slice(1).find((g) => g !== undefined);
+  }
+  return last ?? text;
+}
+
+function captureRegex(
+  text: string,
+  step: Exclude<ExtractStep, string>
+): string {
+  const m = new RegExp(step.regex, step.flags ?? "iu").exec(text);
+  if (!m) return text;
+  const group = step.group ?? (m.length > 1 ? 1 : 0);
+  const value =
+    typeof group === "number" ? m[group] : m.groups?.[group] ?? undefined;
+  return value ?? text;
+}
+
+// "strip-reasoning,final-line" -> steps; "none" -> no steps
+export function parseExtractSteps(spec: string): ExtractStep[] {
+  if (spec.trim() === "none") return [];
+  return spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((name) => {
+      if (!(EXTRACT_STEP_NAMES as readonly string[]).includes(name)) {
+        throw new Error(
+          `Unknown extract step "${name}" (available: ${EXTRACT_STEP_NAMES.join(
+            ", "
+          )}, none)`
+        );
+      }
+      return name as ExtractStep;
+    });
+}
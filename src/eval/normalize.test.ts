@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { doubleVowelsToMacrons, foldMacrons, normalizeText } from "./normalize";
+
+describe("foldMacrons", () => {
+  test("folds precomposed and combining macrons, keeping case", () => {
+    expect(foldMacrons("Tēnā koe, Ōtautahi")).toBe("Tena koe, Otautahi");
+    expect(foldMacrons("wha\u0304nau")).toBe("whanau");
+  });
+
+  test("leaves other diacritics alone", () => {
+    expect(foldMacrons("café")).toBe("café");
+  });
+});
+
+describe("doubleVowelsToMacrons", () => {
+  test("reads doubled vowels as macron vowels", () => {
+    expect(doubleVowelsToMacrons("whaaia")).toBe("whāia");
+    expect(doubleVowelsToMacrons("Aotearoa")).toBe("Aotearoa");
+    expect(doubleVowelsToMacrons("Oo")).toBe("Ō");
+  });
+});
+
+describe("normalizeText", () => {
+  test("defaults to trimmed, lower case, punctuation stripped", () => {
+    expect(normalizeText("  Kia ora!  ")).toBe("kia ora");
+  });
+
+  test("matches decomposed and precomposed macrons", () => {
+    expect(normalizeText("wha\u0304nau")).toBe(normalizeText("whānau"));
+  });
+
+  test("keeps macrons unless told to fold them", () => {
+    expect(normalizeText("Tēnā")).toBe("tēnā");
+    expect(normalizeText("Tēnā", { macrons: false })).toBe("tena");
+  });
+
+  test("reads double vowels before folding", () => {
+    expect(normalizeText("Maaori", { doubleVowels: true })).toBe("māori");
+    expect(
+      normalizeText("Maaori", { doubleVowels: true, macrons: false })
+    ).toBe("maori");
+  });
+
+  test("strips outer quotes and collapses whitespace when asked", () => {
+    const opts = {
+      stripOuterQuotes: true,
+      punctuation: "keep" as const,
+      whitespace: "collapse" as const,
+    };
+    expect(normalizeText("“kia   ora, e hoa”", opts)).toBe("kia ora, e hoa");
+  });
+
+  test("keeps case and punctuation when asked", () => {
+    expect(
+      normalizeText("Kia ora!", { case: "sensitive", punctuation: "keep" })
+    ).toBe("Kia ora!");
+  });
+});
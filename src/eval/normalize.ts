@@ -1,7 +1,24 @@
+import { z } from "zod";
+
+export const NormalizeSchema = z.object({
+  macrons: z.boolean().optional(),
+  doubleVowels: z.boolean().optional(),
+  case: z.enum(["insensitive", "sensitive"]).optional(),
+  trim: z.boolean().optional(),
+  stripOuterQuotes: z.boolean().optional(),
+  punctuation: z.enum(["strip", "keep"]).optional(),
+  whitespace: z.enum(["collapse", "keep"]).optional(),
+});
+
+export type NormalizeOptions = z.infer<typeof NormalizeSchema>;
+
 export function normalizeText(
   input: string,
   opts?: {
+    // false folds macrons away (ā → a) so macron errors are ignored
     macrons?: boolean;
+    // Read doubled vowels (aa, ee, ...) as macron vowels (Waikato spelling)
+    doubleVowels?: boolean;
     case?: "insensitive" | "sensitive";
     trim?: boolean;
     // Strip surrounding quotes if the whole answer is wrapped
@@ -16,7 +33,9 @@ export function normalizeText(
   if (opts?.trim ?? true) out = out.trim();
   if ((opts?.case ?? "insensitive") === "insensitive")
     out = out.toLocaleLowerCase();
-  if (opts?.macrons ?? true) out = normalizeMacrons(out);
+  out = normalizeMacrons(out);
+  if (opts?.doubleVowels) out = doubleVowelsToMacrons(out);
+  if (!(opts?.macrons ?? true)) out = foldMacrons(out);
   if (opts?.stripOuterQuotes) out = stripOuterQuotes(out);
   // Default to stripping punctuation (common harmless differences like trailing full stops)
   if ((opts?.punctuation ?? "strip") === "strip") out = stripPunctuation(out);
@@ -30,6 +49,35 @@ export function normalizeMacrons(input: string): string {
   return input.normalize("NFC");
 }
 
+// ā → a, Ā → A; also handles decomposed vowel + U+0304 combining macron
+export function foldMacrons(input: string): string {
+  return input
+    .normalize("NFD")
+    .replace(/\u0304/g, "")
+    .normalize("NFC");
+}
+
+const MACRON_VOWELS: Record<string, string> = {
+  a: "ā",
+  e: "ē",
+  i: "ī",
+  o: "ō",
+  u: "ū",
+  A: "Ā",
+  E: "Ē",
+  I: "Ī",
+  O: "Ō",
+  U: "Ū",
+};
+
+// "whaaia" → "whāia"; the case of the first vowel is kept
+export function doubleVowelsToMacrons(input: string): string {
+  return input.replace(
+    /([aeiou])\1/gi,
+    (_m, v: string) => MACRON_VOWELS[v] ?? v
+  );
+}
+
 function stripOuterQuotes(input: string): string {
   const s = input.trim();
   const pairs: [string, string][] = [
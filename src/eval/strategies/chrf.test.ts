@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import type { TestCase } from "../../core/runner";
+import { chrf, evaluateChrf } from "./chrf";
+
+describe("chrf", () => {
+  test("is 1 for identical text and 0 with no shared characters", () => {
+    expect(chrf("kia ora", "kia ora")).toBe(1);
+    expect(chrf("abc", "xyz")).toBe(0);
+  });
+
+  test("ignores whitespace", () => {
+    expect(chrf("kiaora", "kia  ora")).toBe(1);
+  });
+
+  test("scores empty strings only against each other", () => {
+    expect(chrf("", "")).toBe(1);
+    expect(chrf("a", "")).toBe(0);
+    expect(chrf("", "a")).toBe(0);
+  });
+
+  test("weights recall over precision by default", () => {
+    // Missing characters cost more than extra ones at beta 2
+    const short = chrf("ab", "abcd");
+    const long = chrf("abcd", "ab");
+    expect(short).toBeLessThan(long);
+    expect(chrf("ab", "abcd", 6, 1)).toBeGreaterThan(short);
+  });
+
+  test("counts macron vowels as different characters", () => {
+    expect(chrf("tēnā koe", "tena koe")).toBeLessThan(0.5);
+  });
+});
+
+describe("evaluateChrf", () => {
+  const testCase = (evalCfg: Record<string, unknown>): TestCase => ({
+    id: "t1",
+    task: "translation",
+    prompt: "Translate",
+    expected: ["Kia ora", "Tēnā koe"],
+    eval: { ...evalCfg, type: "chrf" },
+  });
+
+  test("scores against the closest reference", () => {
+    const res = evaluateChrf(testCase({}), "Tēnā koe.");
+    expect(res.details).toMatchObject({ closest: "Tēnā koe" });
+    expect(res.score).toBeGreaterThan(0.8);
+  });
+
+  test("gives full or no credit with a threshold", () => {
+    expect(evaluateChrf(testCase({ threshold: 0.5 }), "Tēnā koe.").score).toBe(
+      1
+    );
+    expect(evaluateChrf(testCase({ threshold: 0.5 }), "Haere mai").score).toBe(
+      0
+    );
+  });
+});
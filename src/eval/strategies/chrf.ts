@@ -0,0 +1,92 @@
+import { z } from "zod";
+import type { TestCase } from "../../core/runner";
+import type { Evaluation } from "../evaluate";
+import { expectedVariants } from "../expected";
+import { normalizeText, NormalizeSchema } from "../normalize";
+
+export const ChrfEvalSchema = z
+  .object({
+    type: z.literal("chrf"),
+    // Max character n-gram order (chrF default 6)
+    order: z.number().int().min(1).max(10).optional(),
+    // Recall weight (chrF default 2)
+    beta: z.number().positive().optional(),
+    // When set, score is 1 at or above this chrF and 0 below
+    threshold: z.number().min(0).max(1).optional(),
+    // Applied to response and references (default: NFC + trim, case kept)
+    normalize: NormalizeSchema.optional(),
+  })
+  .passthrough();
+
+export function evaluateChrf(
+  test: TestCase,
+  modelResponse: string
+): Evaluation {
+  const cfg = ChrfEvalSchema.parse(test.eval);
+  const prep = (s: string) =>
+    cfg.normalize ? normalizeText(s, cfg.normalize) : s.normalize("NFC").trim();
+  const candidate = prep(modelResponse);
+  let best = 0;
+  let closest: string | undefined;
+  for (const ref of expectedVariants(test)) {
+    const f = chrf(candidate, prep(ref), cfg.order ?? 6, cfg.beta ?? 2);
+    if (closest === undefined || f > best) {
+      best = f;
+      closest = ref;
+    }
+  }
+  const details = { chrf: best, closest };
+  if (cfg.threshold !== undefined) {
+    return { score: best >= cfg.threshold ? 1 : 0, details };
+  }
+  return { score: best, details };
+}
+
+/**
+ * Sentence-level chrF (Popović 2015) in [0, 1]. Whitespace is ignored;
+ * precision and recall are averaged over the n-gram orders both strings
+ * are long enough for.
+ */
+export function chrf(
+  hypothesis: string,
+  reference: string,
+  order = 6,
+  beta = 2
+): number {
+  const hyp = Array.from(hypothesis.replace(/\s+/g, ""));
+  const ref = Array.from(reference.replace(/\s+/g, ""));
+  if (!hyp.length || !ref.length) return hyp.length === ref.length ? 1 : 0;
+
+  let precision = 0;
+  let recall = 0;
+  let orders = 0;
+  for (let n = 1; n <= order; n++) {
+    const h = ngrams(hyp, n);
+    const r = ngrams(ref, n);
+    if (!h.total || !r.total) break;
+    let matches = 0;
+    for (const [g, c] of h.counts) matches += Math.min(c, r.counts.get(g) ?? 0);
+    precision += matches / h.total;
+    recall += matches / r.total;
+    orders += 1;
+  }
+  precision /= orders;
+  recall /= orders;
+  if (precision === 0 && recall === 0) return 0;
+  const b2 = beta * beta;
+  return ((1 + b2) * precision * recall) / (b2 * precision + recall);
+}
+
+function ngrams(
+  chars: string[],
+  n: number
+): { counts: Map<string, number>; total: number } {
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (let i = 0; i + n <= chars.length; i++) {
+    const g = chars.slice(i, i + n).join("");
+    counts.set(g, (counts.get(g) ?? 0) + 1);
+    total += 1;
+  }
+  return { counts, total };
+}
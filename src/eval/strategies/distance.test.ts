@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import type { TestCase } from "../../core/runner";
+import { evaluateDistance, levenshtein, similarity } from "./distance";
+
+describe("similarity", () => {
+  test("is 1 minus the edit distance over the longer length", () => {
+    expect(levenshtein([..."kitten"], [..."sitting"])).toBe(3);
+    expect(similarity("kitten", "sitting")).toBeCloseTo(4 / 7);
+  });
+
+  test("treats empty strings as identical", () => {
+    expect(similarity("", "")).toBe(1);
+    expect(similarity("", "abc")).toBe(0);
+  });
+
+  test("counts a precomposed macron vowel as one character", () => {
+    expect(similarity("whānau", "whanau")).toBeCloseTo(5 / 6);
+    expect(similarity("whānau", "whānau".normalize("NFC"))).toBe(1);
+  });
+});
+
+describe("evaluateDistance", () => {
+  const testCase = (evalCfg: Record<string, unknown>): TestCase => ({
+    id: "t1",
+    task: "spelling",
+    prompt: "Spell it",
+    expected: "whānau",
+    eval: { ...evalCfg, type: "distance" },
+  });
+
+  test("gives graded credit, zeroed below the threshold", () => {
+    expect(evaluateDistance(testCase({}), "Whanau").score).toBeCloseTo(5 / 6);
+    expect(evaluateDistance(testCase({ threshold: 0.9 }), "Whanau").score).toBe(
+      0
+    );
+  });
+
+  test("gives full credit at or above the threshold", () => {
+    const cfg = { credit: "threshold", threshold: 0.8 };
+    expect(evaluateDistance(testCase(cfg), "whanau").score).toBe(1);
+    expect(evaluateDistance(testCase(cfg), "whenua").score).toBe(0);
+  });
+});
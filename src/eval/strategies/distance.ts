@@ -0,0 +1,65 @@
+import { z } from "zod";
+import type { TestCase } from "../../core/runner";
+import type { Evaluation } from "../evaluate";
+import { expectedVariants } from "../expected";
+import { normalizeText, NormalizeSchema } from "../normalize";
+
+export const DistanceEvalSchema = z
+  .object({
+    type: z.literal("distance"),
+    // "graded" (default): score is the similarity, 0 below `threshold`;
+    // "threshold": 1 at or above `threshold`, else 0
+    credit: z.enum(["graded", "threshold"]).optional(),
+    // Minimum similarity (1 - normalized Levenshtein); default 0.8 for
+    // threshold credit, none for graded
+    threshold: z.number().min(0).max(1).optional(),
+    normalize: NormalizeSchema.optional(),
+  })
+  .passthrough();
+
+export function evaluateDistance(
+  test: TestCase,
+  modelResponse: string
+): Evaluation {
+  const cfg = DistanceEvalSchema.parse(test.eval);
+  const candidate = normalizeText(modelResponse, cfg.normalize);
+  let best = 0;
+  let closest: string | undefined;
+  for (const e of expectedVariants(test)) {
+    const sim = similarity(candidate, normalizeText(e, cfg.normalize));
+    if (closest === undefined || sim > best) {
+      best = sim;
+      closest = e;
+    }
+  }
+  const details = { similarity: best, closest };
+  if ((cfg.credit ?? "graded") === "threshold") {
+    return { score: best >= (cfg.threshold ?? 0.8) ? 1 : 0, details };
+  }
+  return {
+    score: cfg.threshold !== undefined && best < cfg.threshold ? 0 : best,
+    details,
+  };
+}
+
+// 1 - Levenshtein distance / longer length, over code points
+export function similarity(a: string, b: string): number {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(x, y) / longest;
+}
+
+export function levenshtein(a: string[], b: string[]): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(cur[j - 1]! + 1, prev[j]! + 1, prev[j - 1]! + cost);
+    }
+    prev = cur;
+  }
+  return prev[b.length]!;
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import type { TestCase } from "../../core/runner";
+import type { Evaluation } from "../evaluate";
+import { expectedVariants } from "../expected";
+import { normalizeText, NormalizeSchema } from "../normalize";
+
+export const ExactEvalSchema = z
+  .object({
+    type: z.literal("exact"),
+    normalize: NormalizeSchema.optional(),
+    // Score for an answer that is right except for macrons (default 0)
+    macronCredit: z.number().min(0).max(1).optional(),
+  })
+  .passthrough();
+
+export type ExactOutcome = "exact" | "macron-only" | "wrong";
+
+export function evaluateExact(
+  test: TestCase,
+  modelResponse: string
+): Evaluation {
+  const cfg = ExactEvalSchema.parse(test.eval);
+  const norm = cfg.normalize ?? {};
+  const expected = expectedVariants(test);
+
+  const candidate = normalizeText(modelResponse, norm);
+  for (const e of expected) {
+    if (normalizeText(e, norm) === candidate) {
+      return { score: 1, outcome: "exact", details: { matched: e } };
+    }
+  }
+
+  // Only meaningful when macrons are compared; folding already forgives them
+  if (norm.macrons ?? true) {
+    const folded = { ...norm, macrons: false };
+    const foldedCandidate = normalizeText(modelResponse, folded);
+    for (const e of expected) {
+      if (normalizeText(e, folded) === foldedCandidate) {
+        return {
+          score: cfg.macronCredit ?? 0,
+          outcome: "macron-only",
+          details: { matched: e },
+        };
+      }
+    }
+  }
+  return { score: 0, outcome: "wrong" };
+}
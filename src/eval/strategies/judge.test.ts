@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import type { TestCase } from "../../core/runner";
+import type { JudgeHandle } from "../evaluate";
+import { evaluateLLMJudge, judgeErrorUsage, runJudge } from "./judge";
+
+const item: TestCase = {
+  id: "t1",
+  task: "translation",
+  prompt: "Translate 'house'",
+  expected: "whare",
+  eval: { type: "llm-judge" },
+};
+
+// A judge that gives these replies in turn; an Error is thrown instead
+function judgeReplying(replies: (string | Error)[]): JudgeHandle {
+  let i = 0;
+  return {
+    name: "judge",
+    model: "judge-model",
+    client: {
+      complete: async () => {
+        const reply = replies[i++]!;
+        if (reply instanceof Error) throw reply;
+        return {
+          text: reply,
+          raw: {},
+          usage: { input_tokens: 100, output_tokens: 10 },
+        };
+      },
+    },
+  };
+}
+
+const verdict = JSON.stringify({ score: 1, rationale: "Correct", errors: [] });
+
+describe("runJudge", () => {
+  test("re-asks after an invalid reply and counts every attempt", async () => {
+    const res = await runJudge(
+      judgeReplying(["nope", verdict]),
+      item,
+      "whare",
+      {}
+    );
+    expect(res).toMatchObject({ normalized: 1, attempts: 2 });
+    expect(res.usage).toEqual({ input_tokens: 200, output_tokens: 20 });
+  });
+
+  test("keeps the spend of every attempt when no verdict is valid", async () => {
+    const err = await runJudge(
+      judgeReplying(["nope", "still no", "{}"]),
+      item,
+      "whare",
+      {}
+    ).catch((e: unknown) => e);
+    expect(String(err)).toContain("gave no valid verdict after 3 attempts");
+    expect(judgeErrorUsage(err)).toEqual({
+      input_tokens: 300,
+      output_tokens: 30,
+    });
+  });
+
+  test("keeps the spend of earlier attempts when a call fails", async () => {
+    const err = await runJudge(
+      judgeReplying(["nope", new Error("HTTP 500")]),
+      item,
+      "whare",
+      {}
+    ).catch((e: unknown) => e);
+    expect(String(err)).toContain("HTTP 500");
+    expect(judgeErrorUsage(err)).toEqual({
+      input_tokens: 100,
+      output_tokens: 10,
+    });
+  });
+});
+
+describe("evaluateLLMJudge with a panel", () => {
+  const panelItem: TestCase = {
+    ...item,
+    eval: { type: "llm-judge", judge: { panel: ["a", "b"], retries: 0 } },
+  };
+  const ctx = (replies: Record<string, (string | Error)[]>) => ({
+    judge: { get: (name?: string) => judgeReplying(replies[name!]!) },
+  });
+
+  test("counts the spend of judges that failed", async () => {
+    const res = await evaluateLLMJudge(
+      panelItem,
+      "whare",
+      ctx({ a: [verdict], b: ["nope"] })
+    );
+    expect(res.score).toBe(1);
+    expect(res.details?.failed).toMatchObject([
+      { model: "b", usage: { input_tokens: 100, output_tokens: 10 } },
+    ]);
+    expect(res.usage).toEqual({ input_tokens: 200, output_tokens: 20 });
+  });
+
+  test("keeps every judge's spend when the whole panel fails", async () => {
+    const err = await evaluateLLMJudge(
+      panelItem,
+      "whare",
+      ctx({ a: ["nope"], b: [new Error("HTTP 500")] })
+    ).catch((e: unknown) => e);
+    expect(String(err)).toContain("Every panel judge failed");
+    expect(judgeErrorUsage(err)).toEqual({
+      input_tokens: 100,
+      output_tokens: 10,
+    });
+  });
+});
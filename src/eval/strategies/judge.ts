@@ -0,0 +1,326 @@
+import { z } from "zod";
+import type { TestCase } from "../../core/runner";
+import type { ChatMessage } from "../../providers/openrouter";
+import { buildMessages, renderConversation } from "../../core/messages";
+import type { EvalContext, Evaluation, JudgeHandle } from "../evaluate";
+import { addUsage, callUsage, type TokenUsage } from "../../scoring/cost";
+import { isCancelled } from "../../core/throttle";
+
+export const JudgeConfigSchema = z.object({
+  // Model name (from models.config.json) or provider id
+  model: z.string().min(1).optional(),
+  // Grading instructions; replaces the default rubric
+  rubric: z.string().min(1).optional(),
+  // Range the judge scores on; normalized to 0..1 afterwards
+  scale: z
+    .object({ min: z.number(), max: z.number() })
+    .refine((s) => s.max > s.min, "scale.max must be greater than scale.min")
+    .optional(),
+  // Error categories the judge may report
+  categories: z.array(z.string().min(1)).optional(),
+  // Re-asks after an unparseable reply (default 2)
+  retries: z.number().int().min(0).max(5).optional(),
+  // Several judges grade each answer; replaces `model`
+  panel: z.array(z.string().min(1)).min(2).optional(),
+  // How panel verdicts become one score (default "mean")
+  aggregate: z.enum(["mean", "median", "majority"]).optional(),
+  // Normalized score a judge must reach to count as a pass (default 0.5)
+  threshold: z.number().min(0).max(1).optional(),
+});
+
+export type JudgeConfig = z.infer<typeof JudgeConfigSchema>;
+
+export const LLMJudgeEvalSchema = z
+  .object({
+    type: z.literal("llm-judge"),
+    judge: JudgeConfigSchema.optional(),
+  })
+  .passthrough();
+
+const JudgeReplySchema = z.object({
+  score: z.number(),
+  rationale: z.string(),
+  errors: z.array(z.string()).default([]),
+});
+
+export const DEFAULT_RUBRIC =
+  "Ignore harmless formatting like quotes, trailing punctuation, or prefatory phrases (e.g., 'The answer is'). Grade semantic and orthographic correctness only. Missing or wrong macrons are orthographic errors.";
+
+export const DEFAULT_ERROR_CATEGORIES = [
+  "meaning",
+  "grammar",
+  "vocabulary",
+  "macrons",
+  "orthography",
+  "register",
+  "incomplete",
+  "other",
+];
+
+export type JudgeVerdict = {
+  model: string;
+  score: number; // on the configured scale
+  normalized: number; // 0..1
+  rationale: string;
+  errors: string[];
+  raw: string; // last judge reply
+  attempts: number;
+  usage?: TokenUsage; // every attempt
+};
+
+export type JudgeAggregate = NonNullable<JudgeConfig["aggregate"]>;
+
+export async function evaluateLLMJudge(
+  test: TestCase,
+  modelResponse: string,
+  ctx: EvalContext
+): Promise<Evaluation> {
+  const cfg = LLMJudgeEvalSchema.parse(test.eval);
+  const judgeCfg = mergeJudgeConfig(ctx.judge.defaults, cfg.judge);
+  if (!judgeCfg.panel) {
+    const verdict = await runJudge(
+      ctx.judge.get(judgeCfg.model),
+      test,
+      modelResponse,
+      judgeCfg
+    );
+    return {
+      score: verdict.normalized,
+      details: { judge: verdict },
+      usage: verdict.usage,
+    };
+  }
+
+  // One failing judge should not sink the panel; aggregate whoever answered
+  const settled = await Promise.allSettled(
+    judgeCfg.panel.map((m) =>
+      runJudge(ctx.judge.get(m), test, modelResponse, judgeCfg)
+    )
+  );
+  const judges: JudgeVerdict[] = [];
+  const failed: { model: string; error: string; usage?: TokenUsage }[] = [];
+  settled.forEach((s, i) => {
+    if (s.status === "fulfilled") judges.push(s.value);
+    else
+      failed.push({
+        model: judgeCfg.panel![i]!,
+        error: s.reason instanceof Error ? s.reason.message : String(s.reason),
+        usage: judgeErrorUsage(s.reason),
+      });
+  });
+  // Judges that failed were still paid for
+  const usage = addUsage(
+    ...judges.map((j) => j.usage),
+    ...failed.map((f) => f.usage)
+  );
+  if (!judges.length) {
+    // A cancelled run drops the item to redo on resume, not a judge_error
+    const cancelled = settled.find(
+      (s): s is PromiseRejectedResult =>
+        s.status === "rejected" && isCancelled(s.reason)
+    );
+    if (cancelled) throw cancelled.reason;
+    throw withJudgeUsage(
+      new Error(
+        `Every panel judge failed: ${failed.map((f) => f.error).join("; ")}`
+      ),
+      usage
+    );
+  }
+  const aggregate = judgeCfg.aggregate ?? "mean";
+  return {
+    score: aggregateVerdicts(
+      judges.map((j) => j.normalized),
+      aggregate,
+      judgeCfg.threshold ?? 0.5
+    ),
+    details: {
+      aggregate,
+      judges,
+      ...(failed.length ? { failed } : {}),
+    },
+    usage,
+  };
+}
+
+// A test that names its own model or panel replaces the suite's choice
+export function mergeJudgeConfig(
+  defaults: JudgeConfig | undefined,
+  override: JudgeConfig | undefined
+): JudgeConfig {
+  const merged: JudgeConfig = { ...defaults, ...override };
+  if (override?.model) delete merged.panel;
+  if (override?.panel) delete merged.model;
+  return merged;
+}
+
+/**
+ * Combines normalized panel scores. "majority" is 1 when more than half of
+ * the judges score at or above `threshold`, else 0.
+ */
+export function aggregateVerdicts(
+  scores: number[],
+  aggregate: JudgeAggregate,
+  threshold: number
+): number {
+  if (aggregate === "majority") {
+    const passes = scores.filter((s) => s >= threshold).length;
+    return passes * 2 > scores.length ? 1 : 0;
+  }
+  if (aggregate === "median") {
+    const sorted = [...scores].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[mid]!
+      : (sorted[mid - 1]! + sorted[mid]!) / 2;
+  }
+  return scores.reduce((acc, s) => acc + s, 0) / scores.length;
+}
+
+/**
+ * Asks one judge for a JSON verdict and validates it. Unparseable or
+ * out-of-range replies are sent back with the error, up to `retries` times.
+ */
+export async function runJudge(
+  judge: JudgeHandle,
+  test: TestCase,
+  modelResponse: string,
+  cfg: JudgeConfig
+): Promise<JudgeVerdict> {
+  const scale = cfg.scale ?? { min: 0, max: 1 };
+  const messages = judgeMessages(test, modelResponse, cfg);
+
+  const attempts = (cfg.retries ?? 2) + 1;
+  let lastError = "";
+  let usage: TokenUsage | undefined;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const res = await judge.client
+      .complete({ model: judge.model, messages, params: { temperature: 0 } })
+      .catch((err: unknown) => {
+        // Earlier re-asks were paid for even though this call failed
+        throw withJudgeUsage(err, usage);
+      });
+    const text = res.text;
+    usage = addUsage(usage, callUsage(res.usage, judge.pricing, res.cached));
+    const parsed = parseJudgeReply(text, scale);
+    if (parsed.ok) {
+      return {
+        model: judge.name,
+        score: parsed.value.score,
+        normalized: (parsed.value.score - scale.min) / (scale.max - scale.min),
+        rationale: parsed.value.rationale,
+        errors: parsed.value.errors,
+        raw: text,
+        attempts: attempt,
+        usage,
+      };
+    }
+    lastError = parsed.error;
+    messages.push(
+      { role: "assistant", content: text },
+      {
+        role: "user",
+        content: `That reply was invalid (${parsed.error}). Reply with only the JSON object.`,
+      }
+    );
+  }
+  throw withJudgeUsage(
+    new Error(
+      `Judge ${judge.name} gave no valid verdict after ${attempts} attempts: ${lastError}`
+    ),
+    usage
+  );
+}
+
+/**
+ * Attaches what a failed judging spent to the error, so the run can still
+ * count it (see `judgeErrorUsage`). Cancellations are passed through as is.
+ */
+export function withJudgeUsage(err: unknown, usage?: TokenUsage): unknown {
+  if (!usage || isCancelled(err)) return err;
+  const error = err instanceof Error ? err : new Error(String(err));
+  return Object.assign(error, { judgeUsage: usage });
+}
+
+// Tokens and cost spent by a judging that threw, if any
+export function judgeErrorUsage(err: unknown): TokenUsage | undefined {
+  return (err as { judgeUsage?: TokenUsage } | undefined)?.judgeUsage;
+}
+
+// The grading request sent to a judge (before any re-asks)
+export function judgeMessages(
+  test: TestCase,
+  modelResponse: string,
+  cfg: JudgeConfig
+): ChatMessage[] {
+  const scale = cfg.scale ?? { min: 0, max: 1 };
+  const categories = cfg.categories ?? DEFAULT_ERROR_CATEGORIES;
+  return [
+    {
+      role: "system",
+      content:
+        "You are a strict grader of Māori language answers. Reply with a single JSON object and nothing else.",
+    },
+    {
+      role: "user",
+      content: `Grade the model answer to this Māori language test item.
+
+Rubric:
+${cfg.rubric ?? DEFAULT_RUBRIC}
+
+Question prompt:
+${renderConversation(buildMessages(test))}
+
+Model answer:
+${modelResponse}
+
+Expected (may be array):
+${JSON.stringify(test.expected)}
+
+Reply with JSON only, in this shape:
+{"score": <number from ${scale.min} (wrong) to ${
+        scale.max
+      } (fully correct)>, "rationale": "<one or two sentences>", "errors": [<zero or more of ${categories
+        .map((c) => JSON.stringify(c))
+        .join(", ")}>]}`,
+    },
+  ];
+}
+
+function parseJudgeReply(
+  text: string,
+  scale: { min: number; max: number }
+):
+  | { ok: true; value: z.infer<typeof JudgeReplySchema> }
+  | { ok: false; error: string } {
+  // Tolerate code fences and chatter around the object
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { ok: false, error: "no JSON object found" };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : "bad JSON",
+    };
+  }
+  const res = JudgeReplySchema.safeParse(json);
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    return {
+      ok: false,
+      error: `${issue?.path.join(".") || "reply"}: ${issue?.message}`,
+    };
+  }
+  if (res.data.score < scale.min || res.data.score > scale.max) {
+    return {
+      ok: false,
+      error: `score ${res.data.score} outside ${scale.min}..${scale.max}`,
+    };
+  }
+  return { ok: true, value: res.data };
+}
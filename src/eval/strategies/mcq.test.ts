@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import type { TestCase } from "../../core/runner";
+import {
+  combinePermutations,
+  evaluateMcq,
+  mcqOrders,
+  parseChoice,
+  permuteTest,
+} from "./mcq";
+
+const possession = { choices: ["o", "a"] };
+const birds = { choices: ["kererū", "tūī", "kākā"] };
+
+describe("parseChoice", () => {
+  test("reads marked and bare letters", () => {
+    expect(parseChoice("B", birds)).toBe(1);
+    expect(parseChoice("(C)", birds)).toBe(2);
+    expect(parseChoice("b. tūī", birds)).toBe(1);
+    expect(parseChoice("**A**", birds)).toBe(0);
+  });
+
+  test("reads a bare letter as a letter when options are letters too", () => {
+    expect(parseChoice("A", possession)).toBe(0);
+    expect(parseChoice("a", possession)).toBe(0);
+    expect(parseChoice("B", possession)).toBe(1);
+    expect(parseChoice("A)", possession)).toBe(0);
+  });
+
+  test("reads a bare letter as option text when asked for text", () => {
+    const cfg = { ...possession, instruction: "Tuhia te kupu tika." };
+    expect(parseChoice("a", cfg)).toBe(1);
+    expect(parseChoice("o", cfg)).toBe(0);
+  });
+
+  test("accepts English and Māori answer phrasing", () => {
+    expect(parseChoice("The answer is C", birds)).toBe(2);
+    expect(parseChoice("Answer: (B)", birds)).toBe(1);
+    expect(parseChoice("Ko te whakautu ko B", birds)).toBe(1);
+    expect(parseChoice("Ko te whakautu tika ko A", birds)).toBe(0);
+    expect(parseChoice("Ko C", birds)).toBe(2);
+    expect(parseChoice("Ko B te whakautu.", birds)).toBe(1);
+    expect(parseChoice("Kōwhiringa: C", birds)).toBe(2);
+  });
+
+  test("matches option text, macrons and all", () => {
+    expect(parseChoice("Kākā", birds)).toBe(2);
+    expect(parseChoice("I think it is the tūī.", birds)).toBe(1);
+  });
+
+  test("returns null when no single option is named", () => {
+    expect(parseChoice("kererū or tūī", birds)).toBeNull();
+    expect(parseChoice("E", birds)).toBeNull();
+    expect(parseChoice("", birds)).toBeNull();
+  });
+});
+
+describe("permuted items", () => {
+  const item: TestCase = {
+    id: "mcq-birds",
+    task: "vocab",
+    prompt: "Which bird is a parrot?",
+    eval: { type: "mcq", choices: birds.choices, answer: 2, permutations: 3 },
+  };
+
+  test("asks the authored order first, then distinct shuffles", () => {
+    const orders = mcqOrders(item);
+    expect(orders[0]).toEqual([0, 1, 2]);
+    expect(new Set(orders.map((o) => o.join())).size).toBe(3);
+    expect(mcqOrders(item)).toEqual(orders);
+  });
+
+  test("scores the letter against the remapped answer", () => {
+    const view = permuteTest(item, [2, 0, 1]);
+    expect(evaluateMcq(view, "A").score).toBe(1);
+    expect(evaluateMcq(view, "C")).toMatchObject({
+      score: 0,
+      outcome: "wrong",
+      details: { chosen: 1, position: 2 },
+    });
+  });
+
+  test("flags changed choices and keeps what each order was sent", () => {
+    const calls = [
+      [0, 1, 2],
+      [2, 0, 1],
+    ].map((order) => {
+      const view = permuteTest(item, order);
+      const messages = [{ role: "user" as const, content: order.join() }];
+      return { messages, response: "A", ...evaluateMcq(view, "A") };
+    });
+    const merged = combinePermutations(calls);
+    expect(merged).toMatchObject({ score: 0.5, outcome: "inconsistent" });
+    expect(merged.details?.permutations).toMatchObject([
+      { messages: [{ content: "0,1,2" }], order: [0, 1, 2], chosen: 0 },
+      { messages: [{ content: "2,0,1" }], order: [2, 0, 1], chosen: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+import { z } from "zod";
+import type { TestCase } from "../../core/runner";
+import type { ChatMessage } from "../../providers/openrouter";
+import { sha256 } from "../../core/hash";
+import { mean, mulberry32 } from "../../scoring/stats";
+import type { Evaluation } from "../evaluate";
+import { normalizeText, NormalizeSchema } from "../normalize";
+
+export const McqEvalSchema = z
+  .object({
+    type: z.literal("mcq"),
+    choices: z.array(z.string().min(1)).min(2).max(26),
+    // Index into `choices` of the correct option (0-based)
+    answer: z.number().int().min(0),
+    // Ask the item under this many option orders: the authored one, then
+    // seeded shuffles (default 1)
+    permutations: z.number().int().min(1).optional(),
+    // Shuffle seed (default: derived from the test id)
+    seed: z.number().int().optional(),
+    // Appended after the options
+    instruction: z.string().min(1).optional(),
+    // Applied to both sides when matching an answer given as option text
+    normalize: NormalizeSchema.optional(),
+  })
+  .passthrough();
+
+export type McqEvalConfig = z.infer<typeof McqEvalSchema>;
+
+export const DEFAULT_MCQ_INSTRUCTION =
+  "Answer with the letter of the correct option.";
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/** One call's reading of the answer; indexes are into the authored `choices`. */
+export type McqChoice = {
+  // Displayed position -> authored index
+  order: number[];
+  answer: number;
+  chosen: number | null;
+  // Displayed position of the chosen option, 0 = A
+  position: number | null;
+  letter?: string;
+};
+
+// Reports an out-of-range answer and repeated options; used by suite validation
+export function checkMcq(cfg: McqEvalConfig, ctx: z.RefinementCtx): void {
+  if (cfg.answer >= cfg.choices.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["answer"],
+      message: `answer ${cfg.answer} is out of range for ${cfg.choices.length} choices`,
+    });
+  }
+  const seen = new Set<string>();
+  cfg.choices.forEach((c, i) => {
+    const key = normalizeText(c, cfg.normalize ?? {});
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["choices", i],
+        message: `"${c}" repeats an earlier choice`,
+      });
+    }
+    seen.add(key);
+  });
+}
+
+// The question followed by lettered options and the answer instruction
+export function renderChoices(prompt: string, cfg: McqEvalConfig): string {
+  const options = cfg.choices.map((c, i) => `${LETTERS[i]}) ${c}`);
+  return [
+    prompt,
+    "",
+    ...options,
+    "",
+    cfg.instruction ?? DEFAULT_MCQ_INSTRUCTION,
+  ].join("\n");
+}
+
+/**
+ * Option orders to ask an item under: the authored order first, then
+ * distinct seeded shuffles, capped at the number of possible orders.
+ */
+export function mcqOrders(test: TestCase): number[][] {
+  const cfg = McqEvalSchema.parse(test.eval);
+  const n = cfg.choices.length;
+  const identity = cfg.choices.map((_, i) => i);
+  let possible = 1;
+  for (let i = 2; i <= n && possible < 1e6; i++) possible *= i;
+  const wanted = Math.min(cfg.permutations ?? 1, possible);
+  const rand = mulberry32(
+    cfg.seed ?? parseInt(sha256(test.id).slice(0, 8), 16)
+  );
+  const orders = [identity];
+  const seen = new Set([identity.join(",")]);
+  for (let attempt = 0; orders.length < wanted && attempt < 1000; attempt++) {
+    const order = [...identity];
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [order[i], order[j]] = [order[j]!, order[i]!];
+    }
+    if (seen.has(order.join(","))) continue;
+    seen.add(order.join(","));
+    orders.push(order);
+  }
+  return orders;
+}
+
+// The test as asked under `order`: choices reordered, answer remapped
+export function permuteTest(test: TestCase, order: number[]): TestCase {
+  const cfg = McqEvalSchema.parse(test.eval);
+  return {
+    ...test,
+    eval: {
+      ...test.eval,
+      choices: order.map((i) => cfg.choices[i]!),
+      answer: order.indexOf(cfg.answer),
+      order,
+    },
+  };
+}
+
+/**
+ * Position of the option a response picks, or null. Accepts "B", "B)",
+ * "(B)", "B. text", "Answer: B", "Ko te whakautu ko B", "Ko B", the option
+ * text itself, or a response naming exactly one option. A bare letter is
+ * read as a letter when the instruction asks for one, even if it is also
+ * an option's text (a/o possession items).
+ */
+export function parseChoice(
+  response: string,
+  cfg: Pick<McqEvalConfig, "choices" | "normalize" | "instruction">
+): number | null {
+  const text = response.replace(/[*_`]/g, "").trim();
+  const letterAt = (l: string) => {
+    const i = LETTERS.indexOf(l.toUpperCase());
+    return i >= 0 && i < cfg.choices.length ? i : null;
+  };
+  // A marked letter is unambiguous even when options are single letters
+  const marked = /^\(?([A-Za-z])[).:](?:\s|$)/.exec(text);
+  if (marked && letterAt(marked[1]!) !== null) return letterAt(marked[1]!);
+  const bare = /^[A-Za-z]$/.test(text);
+  if (bare && asksForLetter(cfg) && letterAt(text) !== null) {
+    return letterAt(text);
+  }
+
+  const norm = (s: string) => normalizeText(s, cfg.normalize ?? {});
+  const target = norm(text);
+  const exact = cfg.choices.findIndex((c) => norm(c) === target);
+  if (exact >= 0) return exact;
+  if (bare) return letterAt(text);
+
+  // "The answer is B", "Ko te whakautu tika ko B", "kōwhiringa: B"
+  const stated =
+    /\b(?:answer|option|choice|whakautu|kōwhiringa)\b(?:\s+(?:is|ko|tika|he))*[\s:=-]*\(?([A-Za-z])\)?(?![\p{L}])/iu.exec(
+      text
+    );
+  if (stated && letterAt(stated[1]!) !== null) return letterAt(stated[1]!);
+  // "Ko B", "Ko B te whakautu"; capitals only, since "ko a" is also te reo
+  const ko = /^[Kk]o\s+\(?([A-Z])\)?(?![\p{L}])/u.exec(text);
+  if (ko && letterAt(ko[1]!) !== null) return letterAt(ko[1]!);
+
+  const named = cfg.choices
+    .map((c, i) => (` ${target} `.includes(` ${norm(c)} `) ? i : -1))
+    .filter((i) => i >= 0);
+  return named.length === 1 ? named[0]! : null;
+}
+
+// The default instruction asks for a letter; custom ones may ask for text
+function asksForLetter(cfg: Pick<McqEvalConfig, "instruction">): boolean {
+  return !cfg.instruction || /\b(?:letter|reta)\b/i.test(cfg.instruction);
+}
+
+export function evaluateMcq(test: TestCase, modelResponse: string): Evaluation {
+  const cfg = McqEvalSchema.parse(test.eval);
+  // Set by permuteTest; the authored order otherwise
+  const order =
+    (test.eval as { order?: number[] }).order ?? cfg.choices.map((_, i) => i);
+  const position = parseChoice(modelResponse, cfg);
+  const choice: McqChoice = {
+    order,
+    answer: order[cfg.answer]!,
+    chosen: position === null ? null : order[position]!,
+    position,
+    letter: position === null ? undefined : LETTERS[position],
+  };
+  const correct = position === cfg.answer;
+  return {
+    score: correct ? 1 : 0,
+    outcome: position === null ? "unparsed" : correct ? "correct" : "wrong",
+    details: choice,
+  };
+}
+
+/**
+ * Merges the calls for one item's permutations. The score is the share
+ * answered correctly; the item is consistent when every order got the
+ * same (parsed) option. Each call's entry keeps the conversation it was
+ * sent, so position bias can be checked from the traces.
+ */
+export function combinePermutations(
+  calls: {
+    messages?: ChatMessage[];
+    response: string;
+    score: number;
+    details?: Record<string, unknown>;
+  }[]
+): Evaluation {
+  const chosen = calls.map(
+    (c) => (c.details as McqChoice | undefined)?.chosen ?? null
+  );
+  const consistent = chosen[0] !== null && chosen.every((x) => x === chosen[0]);
+  const score = mean(calls.map((c) => c.score));
+  return {
+    score,
+    outcome: chosen.every((x) => x === null)
+      ? "unparsed"
+      : !consistent
+      ? "inconsistent"
+      : score === 1
+      ? "correct"
+      : "wrong",
+    details: {
+      consistent,
+      permutations: calls.map((c) => ({
+        messages: c.messages,
+        response: c.response,
+        ...c.details,
+      })),
+    },
+  };
+}
+
+// Per-call choices in a result's details, whether permuted or not
+export function mcqChoices(details?: Record<string, unknown>): McqChoice[] {
+  if (!details) return [];
+  const calls = Array.isArray(details.permutations)
+    ? (details.permutations as Record<string, unknown>[])
+    : [details];
+  // Calls that errored carry no choice
+  return calls.filter((c) => Array.isArray(c.order)) as McqChoice[];
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { TestCase } from "../../core/runner";
+import type { Evaluation } from "../evaluate";
+import { normalizeText, NormalizeSchema } from "../normalize";
+
+export const RegexEvalSchema = z
+  .object({
+    type: z.literal("regex"),
+    patterns: z.union([z.string(), z.array(z.string()).min(1)]),
+    // Default "iu"; `u` is needed for macron-aware classes like \p{L}
+    flags: z.string().optional(),
+    // Wrap each pattern in ^(?:...)$ so it must match the whole answer
+    anchored: z.boolean().optional(),
+    // "any" (default): one pattern must match; "all": every pattern must
+    mode: z.enum(["any", "all"]).optional(),
+    // Applied to the response before matching (default: trim only)
+    normalize: NormalizeSchema.optional(),
+  })
+  .passthrough();
+
+// Reports patterns that do not compile; used by suite validation
+export function checkRegexPatterns(
+  cfg: z.infer<typeof RegexEvalSchema>,
+  ctx: z.RefinementCtx
+): void {
+  const list = Array.isArray(cfg.patterns) ? cfg.patterns : [cfg.patterns];
+  list.forEach((p, i) => {
+    try {
+      new RegExp(p, cfg.flags ?? "iu");
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["patterns", ...(Array.isArray(cfg.patterns) ? [i] : [])],
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+}
+
+export function evaluateRegex(
+  test: TestCase,
+  modelResponse: string
+): Evaluation {
+  const cfg = RegexEvalSchema.parse(test.eval);
+  const list = Array.isArray(cfg.patterns) ? cfg.patterns : [cfg.patterns];
+  const anchored = cfg.anchored ?? true;
+  const candidate = cfg.normalize
+    ? normalizeText(modelResponse, cfg.normalize)
+    : modelResponse.trim();
+  const matches = list.map((p) =>
+    new RegExp(anchored ? `^(?:${p})$` : p, cfg.flags ?? "iu").test(candidate)
+  );
+  const ok =
+    cfg.mode === "all" ? matches.every(Boolean) : matches.some(Boolean);
+  return {
+    score: ok ? 1 : 0,
+    details: { matched: list.filter((_, i) => matches[i]) },
+  };
+}
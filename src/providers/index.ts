@@ -0,0 +1,70 @@
+import { z } from "zod";
+import type { ModelSpec } from "../config/models";
+import { withCache, type ResponseCache } from "../core/cache";
+import { createOpenRouterClient, type OpenRouterClient } from "./openrouter";
+import { createMockClient, MockProviderConfigSchema } from "./mock";
+import { createReplayClient, ReplayProviderConfigSchema } from "./replay";
+import {
+  createOpenAICompatibleClientFromConfig,
+  OpenAICompatibleProviderConfigSchema,
+} from "./openai-compatible";
+
+const OpenRouterProviderConfigSchema = z.object({
+  type: z.literal("openrouter"),
+});
+
+// Accepts either a bare provider type ("mock") or a full config object
+export const ProviderConfigSchema = z.preprocess(
+  (v) => (typeof v === "string" ? { type: v } : v),
+  z.discriminatedUnion("type", [
+    OpenRouterProviderConfigSchema,
+    OpenAICompatibleProviderConfigSchema,
+    MockProviderConfigSchema,
+    ReplayProviderConfigSchema,
+  ])
+);
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+
+export type ProviderRegistry = {
+  get(model: ModelSpec): OpenRouterClient;
+};
+
+export function createProviderRegistry(options?: {
+  timeoutMs?: number;
+  cache?: ResponseCache;
+}): ProviderRegistry {
+  const clients = new Map<string, OpenRouterClient>();
+
+  function get(model: ModelSpec): OpenRouterClient {
+    const config: ProviderConfig = model.provider ?? { type: "openrouter" };
+    const key = JSON.stringify(config);
+    let client = clients.get(key);
+    if (!client) {
+      client = createClient(config, options);
+      // Offline providers are already deterministic and local
+      if (options?.cache && config.type !== "mock" && config.type !== "replay")
+        client = withCache(client, options.cache, config);
+      clients.set(key, client);
+    }
+    return client;
+  }
+
+  return { get };
+}
+
+function createClient(
+  config: ProviderConfig,
+  options?: { timeoutMs?: number }
+): OpenRouterClient {
+  switch (config.type) {
+    case "openrouter":
+      return createOpenRouterClient({ timeoutMs: options?.timeoutMs });
+    case "openai-compatible":
+      return createOpenAICompatibleClientFromConfig(config, options);
+    case "mock":
+      return createMockClient(config);
+    case "replay":
+      return createReplayClient(config);
+  }
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type {
+  ChatMessage,
+  CompletionParams,
+  OpenRouterClient,
+} from "./openrouter";
+
+export const MockRuleSchema = z.object({
+  // Regular expression tested against the last user message
+  match: z.string(),
+  flags: z.string().optional(),
+  response: z.string(),
+});
+
+export const MockProviderConfigSchema = z.object({
+  type: z.literal("mock"),
+  // JSON file: either { "<prompt>": "<response>" } or an array of rules
+  fixture: z.string().optional(),
+  rules: z.array(MockRuleSchema).optional(),
+  // Returned when nothing matches (default: empty string)
+  default: z.string().optional(),
+});
+
+export type MockProviderConfig = z.infer<typeof MockProviderConfigSchema>;
+
+type MockRule = z.infer<typeof MockRuleSchema>;
+
+const MockFixtureSchema = z.union([
+  z.record(z.string()),
+  z.array(MockRuleSchema),
+]);
+
+/**
+ * Deterministic offline client. Answers come from an exact-prompt fixture
+ * map first, then from regex rules in order, then from `default`.
+ */
+export function createMockClient(config: MockProviderConfig): OpenRouterClient {
+  const answers = new Map<string, string>();
+  const rules: { re: RegExp; response: string }[] = [];
+
+  const addRules = (list: MockRule[]) => {
+    for (const r of list) {
+      rules.push({ re: new RegExp(r.match, r.flags), response: r.response });
+    }
+  };
+
+  if (config.fixture) {
+    const fixturePath = resolve(process.cwd(), config.fixture);
+    const fixture = MockFixtureSchema.parse(
+      JSON.parse(readFileSync(fixturePath, "utf8"))
+    );
+    if (Array.isArray(fixture)) addRules(fixture);
+    else for (const [k, v] of Object.entries(fixture)) answers.set(k, v);
+  }
+  addRules(config.rules ?? []);
+
+  async function complete(input: CompletionParams) {
+    const prompt = lastUserMessage(input.messages);
+    let text = answers.get(prompt);
+    if (text === undefined) {
+      text = rules.find((r) => r.re.test(prompt))?.response;
+    }
+    text ??= config.default ?? "";
+    const usage = {
+      input_tokens: Math.ceil(
+        input.messages.reduce((acc, m) => acc + m.content.length, 0) / 4
+      ),
+      output_tokens: Math.ceil(text.length / 4),
+    };
+    return { text, raw: { provider: "mock", model: input.model }, usage };
+  }
+
+  return { complete };
+}
+
+export function lastUserMessage(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m?.role === "user") return m.content;
+  }
+  return "";
+}
@@ -0,0 +1,170 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+  createOpenAICompatibleClient,
+  createOpenAICompatibleClientFromConfig,
+} from "./openai-compatible";
+
+// Stub chat-completions server recording what the client sent
+type Received = { body: Record<string, unknown>; headers: Headers };
+let received: Received[] = [];
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const body = (await req.json()) as Record<string, unknown>;
+    received.push({ body, headers: req.headers });
+    if (body.stream) return streamed();
+    return Response.json({
+      id: "cmpl-1",
+      object: "chat.completion",
+      created: 1,
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: "Kia ora" },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+  },
+});
+
+// Two content chunks after a pause, then usage in a chunk with no choices
+function streamed(): Response {
+  const chunk = (extra: Record<string, unknown>) =>
+    `data: ${JSON.stringify({
+      id: "cmpl-2",
+      object: "chat.completion.chunk",
+      created: 1,
+      model: "local",
+      ...extra,
+    })}\n\n`;
+  const events = [
+    chunk({ choices: [{ index: 0, delta: { content: "Kia " } }] }),
+    chunk({
+      choices: [{ index: 0, delta: { content: "ora" }, finish_reason: "stop" }],
+    }),
+    chunk({
+      choices: [],
+      usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 },
+    }),
+    "data: [DONE]\n\n",
+  ];
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      async start(controller) {
+        await Bun.sleep(30);
+        for (const e of events) controller.enqueue(encoder.encode(e));
+        controller.close();
+      },
+    }),
+    { headers: { "content-type": "text/event-stream" } }
+  );
+}
+
+const baseURL = `http://localhost:${server.port}/v1`;
+const messages = [{ role: "user" as const, content: "Greet me" }];
+
+beforeEach(() => {
+  received = [];
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("openai-compatible provider", () => {
+  test("passes params through and merges extra body fields", async () => {
+    const client = createOpenAICompatibleClient({
+      baseURL,
+      body: { top_k: 40, model: "ignored" },
+    });
+    const res = await client.complete({
+      model: "local",
+      messages,
+      params: {
+        top_p: 0.9,
+        seed: 7,
+        stop: ["\n"],
+        reasoning_effort: "low",
+        temperature: undefined,
+      },
+    });
+    expect(res.text).toBe("Kia ora");
+    expect(res.usage).toEqual({ input_tokens: 12, output_tokens: 3 });
+    const body = received[0]!.body;
+    expect(body).toMatchObject({
+      model: "local",
+      messages,
+      top_p: 0.9,
+      seed: 7,
+      stop: ["\n"],
+      reasoning_effort: "low",
+      top_k: 40,
+    });
+    expect("temperature" in body).toBe(false);
+  });
+
+  test("params win over body fields", async () => {
+    const client = createOpenAICompatibleClient({
+      baseURL,
+      body: { top_p: 0.1 },
+    });
+    await client.complete({ model: "local", messages, params: { top_p: 0.5 } });
+    expect(received[0]!.body.top_p).toBe(0.5);
+  });
+
+  test("sends custom headers and the key from apiKeyEnv", async () => {
+    process.env.STUB_API_KEY = "sk-stub";
+    const client = createOpenAICompatibleClientFromConfig({
+      type: "openai-compatible",
+      baseURL,
+      apiKeyEnv: "STUB_API_KEY",
+      headers: { "x-team": "reo" },
+    });
+    await client.complete({ model: "local", messages });
+    const { headers } = received[0]!;
+    expect(headers.get("authorization")).toBe("Bearer sk-stub");
+    expect(headers.get("x-team")).toBe("reo");
+  });
+
+  test("fails without the env var named by apiKeyEnv", () => {
+    delete process.env.STUB_MISSING_KEY;
+    expect(() =>
+      createOpenAICompatibleClientFromConfig({
+        type: "openai-compatible",
+        baseURL,
+        apiKeyEnv: "STUB_MISSING_KEY",
+      })
+    ).toThrow("Missing STUB_MISSING_KEY");
+  });
+
+  test("streams the reply with usage and time to first token", async () => {
+    const client = createOpenAICompatibleClient({ baseURL });
+    const res = await client.complete({
+      model: "local",
+      messages,
+      stream: true,
+    });
+    expect(received[0]!.body).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(res.text).toBe("Kia ora");
+    expect(res.usage).toEqual({ input_tokens: 12, output_tokens: 2 });
+    expect(res.ttftMs).toBeGreaterThanOrEqual(20);
+    expect(res.raw).toMatchObject({
+      object: "chat.completion",
+      choices: [
+        {
+          message: { role: "assistant", content: "Kia ora" },
+          finish_reason: "stop",
+        },
+      ],
+      streamed: true,
+    });
+  });
+});
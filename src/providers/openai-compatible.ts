@@ -0,0 +1,151 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions";
+import { z } from "zod";
+import type { CompletionParams, OpenRouterClient } from "./openrouter";
+
+export const OpenAICompatibleProviderConfigSchema = z.object({
+  type: z.literal("openai-compatible"),
+  // e.g. http://localhost:8080/v1 (llama.cpp), http://localhost:11434/v1 (Ollama)
+  baseURL: z.string().url(),
+  // Name of the env var holding the API key; omit for servers without auth
+  apiKeyEnv: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  // Extra fields merged into every request body (e.g. { "top_k": 40 })
+  body: z.record(z.unknown()).optional(),
+});
+
+export type OpenAICompatibleProviderConfig = z.infer<
+  typeof OpenAICompatibleProviderConfigSchema
+>;
+
+export function createOpenAICompatibleClient(options: {
+  baseURL: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  body?: Record<string, unknown>;
+  timeoutMs?: number;
+}): OpenRouterClient {
+  const client = new OpenAI({
+    // The SDK requires a key even when the server ignores it
+    apiKey: options.apiKey || "no-key",
+    baseURL: options.baseURL,
+    timeout: options.timeoutMs ?? 30_000,
+    // Retries and Retry-After are handled by the run's limiter
+    maxRetries: 0,
+    defaultHeaders: options.headers,
+  });
+
+  async function complete(input: CompletionParams) {
+    if (input.stream) return completeStreaming(input);
+    const response = await client.chat.completions.create(
+      buildRequestBody(input, options.body)
+    );
+
+    const choice = response.choices?.[0];
+    const text = choice?.message?.content ?? "";
+    return { text, raw: response, usage: toUsage(response.usage) };
+  }
+
+  // Same result as `complete`, with `raw` rebuilt in the non-streamed shape
+  async function completeStreaming(input: CompletionParams) {
+    const t0 = performance.now();
+    const stream = await client.chat.completions.create({
+      ...buildRequestBody(input, options.body),
+      stream: true,
+      // Usage arrives in a final chunk with no choices
+      stream_options: { include_usage: true },
+    });
+    let text = "";
+    let ttftMs: number | undefined;
+    let last: ChatCompletionChunk | undefined;
+    let usage: ChatCompletionChunk["usage"];
+    let finishReason: string | null = null;
+    for await (const chunk of stream) {
+      last = chunk;
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content ?? "";
+      if (delta && ttftMs === undefined) {
+        ttftMs = Math.round(performance.now() - t0);
+      }
+      text += delta;
+      finishReason = choice?.finish_reason ?? finishReason;
+      if (chunk.usage) usage = chunk.usage;
+    }
+    const raw = {
+      id: last?.id,
+      object: "chat.completion",
+      created: last?.created,
+      model: last?.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: text },
+          finish_reason: finishReason,
+        },
+      ],
+      usage,
+      streamed: true,
+    };
+    return { text, raw, usage: toUsage(usage), ttftMs };
+  }
+
+  return { complete };
+}
+
+export function createOpenAICompatibleClientFromConfig(
+  config: OpenAICompatibleProviderConfig,
+  options?: { timeoutMs?: number }
+): OpenRouterClient {
+  let apiKey: string | undefined;
+  if (config.apiKeyEnv) {
+    apiKey = process.env[config.apiKeyEnv] ?? Bun.env[config.apiKeyEnv];
+    if (!apiKey) throw new Error(`Missing ${config.apiKeyEnv}`);
+  }
+  return createOpenAICompatibleClient({
+    baseURL: config.baseURL,
+    apiKey,
+    headers: config.headers,
+    body: config.body,
+    timeoutMs: options?.timeoutMs,
+  });
+}
+
+// OpenAI-style prompt/completion counts as input/output tokens
+export function toUsage(
+  usage: unknown
+): { input_tokens?: number; output_tokens?: number } | undefined {
+  if (!usage || typeof usage !== "object") return undefined;
+  const u = usage as Record<string, unknown>;
+  const num = (v: unknown) => (typeof v === "number" ? v : undefined);
+  return {
+    input_tokens: num(u.input_tokens) ?? num(u.prompt_tokens),
+    output_tokens: num(u.output_tokens) ?? num(u.completion_tokens),
+  };
+}
+
+// Params and `body` fields the SDK does not know are sent as they are
+export type RequestBody = ChatCompletionCreateParamsNonStreaming &
+  Record<string, unknown>;
+
+/**
+ * Request body for `chat.completions.create`. Every model param (top_p, seed,
+ * stop, reasoning_effort, ...) is passed through as-is; `model` and
+ * `messages` always win over params and extra body fields.
+ */
+export function buildRequestBody(
+  input: CompletionParams,
+  extra?: Record<string, unknown>
+): RequestBody {
+  const params = Object.fromEntries(
+    Object.entries(input.params ?? {}).filter(([, v]) => v !== undefined)
+  );
+  return {
+    ...extra,
+    ...params,
+    model: input.model,
+    messages: input.messages,
+  };
+}
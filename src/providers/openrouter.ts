@@ -1,4 +1,4 @@
-import OpenAI from "openai";
+import { createOpenAICompatibleClient } from "./openai-compatible";
 
 export type ChatMessage = {
   role: "system" | "user" | "assistant";
@@ -9,6 +9,11 @@ export type CompletionParams = {
   model: string; // e.g., 'openai/gpt-4o'
   messages: ChatMessage[];
   params?: Record<string, unknown>;
+  // Repeat index when sampling; keeps cached samples apart, never sent
+  sample?: number;
+  // Stream the reply so time to first token can be measured; the result is
+  // the same as without
+  stream?: boolean;
 };
 
 export type OpenRouterClient = {
@@ -18,6 +23,11 @@ export type OpenRouterClient = {
     text: string;
     raw: unknown;
     usage?: { input_tokens?: number; output_tokens?: number };
+    // Set when the response was served from the response cache
+    cached?: boolean;
+    // Milliseconds from sending the request to the first content token,
+    // when streamed
+    ttftMs?: number;
   }>;
 };
 
@@ -30,11 +40,11 @@ export function createOpenRouterClient(options?: {
     throw new Error("Missing OPENROUTER_API_KEY");
   }
 
-  const client = new OpenAI({
-    apiKey,
+  return createOpenAICompatibleClient({
     baseURL,
-    timeout: options?.timeoutMs ?? 30_000,
-    defaultHeaders: {
+    apiKey,
+    timeoutMs: options?.timeoutMs,
+    headers: {
       "HTTP-Referer":
         process.env.OPENROUTER_HTTP_REFERER ??
         Bun.env.OPENROUTER_HTTP_REFERER ??
@@ -45,25 +55,4 @@ export function createOpenRouterClient(options?: {
         "maori-benchmark",
     },
   });
-
-  async function complete(input: CompletionParams) {
-    const response = await client.chat.completions.create({
-      model: input.model,
-      messages: input.messages,
-      temperature:
-        typeof input.params?.temperature === "number"
-          ? (input.params.temperature as number)
-          : undefined,
-      max_tokens:
-        typeof input.params?.max_tokens === "number"
-          ? (input.params.max_tokens as number)
-          : undefined,
-    } as any);
-
-    const choice = response.choices?.[0];
-    const text = choice?.message?.content ?? "";
-    return { text, raw: response, usage: response.usage as any };
-  }
-
-  return { complete };
 }
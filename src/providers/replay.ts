@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type {
+  ChatMessage,
+  CompletionParams,
+  OpenRouterClient,
+} from "./openrouter";
+import { stableStringify } from "../core/hash";
+import { lastUserMessage } from "./mock";
+import { toUsage } from "./openai-compatible";
+
+export const ReplayProviderConfigSchema = z.object({
+  type: z.literal("replay"),
+  // A previous run directory (results/<run-id>) or its traces/ directory
+  dir: z.string().min(1),
+  // Model name or provider id to replay from (default: the requested model)
+  model: z.string().optional(),
+});
+
+export type ReplayProviderConfig = z.infer<typeof ReplayProviderConfigSchema>;
+
+type Trace = {
+  model?: string;
+  provider_id?: string;
+  prompt?: string;
+  messages?: ChatMessage[];
+  response?: string;
+  error?: string;
+  raw?: unknown;
+};
+
+/**
+ * Serves responses recorded in a previous run's traces. Lookups are keyed by
+ * model (name or provider id) and the exact messages sent, falling back to
+ * the prompt of the last user message.
+ */
+export function createReplayClient(
+  config: ReplayProviderConfig
+): OpenRouterClient {
+  let index: Map<string, Trace> | undefined;
+
+  function load(): Map<string, Trace> {
+    const base = resolve(process.cwd(), config.dir);
+    const tracesDir = existsSync(join(base, "traces"))
+      ? join(base, "traces")
+      : base;
+    if (!existsSync(tracesDir)) {
+      throw new Error(`Replay directory not found: ${tracesDir}`);
+    }
+    const map = new Map<string, Trace>();
+    for (const file of readdirSync(tracesDir)) {
+      if (!file.endsWith(".json")) continue;
+      const trace = JSON.parse(
+        readFileSync(join(tracesDir, file), "utf8")
+      ) as Trace;
+      if (trace.error || typeof trace.response !== "string") continue;
+      const prompt = trace.prompt ?? "";
+      for (const model of [trace.model, trace.provider_id]) {
+        if (!model) continue;
+        map.set(replayKey(model, prompt), trace);
+        if (trace.messages) {
+          map.set(replayKey(model, stableStringify(trace.messages)), trace);
+        }
+      }
+    }
+    return map;
+  }
+
+  async function complete(input: CompletionParams) {
+    index ??= load();
+    const model = config.model ?? input.model;
+    const prompt = lastUserMessage(input.messages);
+    // Whole conversation first; traces from older runs only have the prompt
+    const trace =
+      index.get(replayKey(model, stableStringify(input.messages))) ??
+      index.get(replayKey(model, prompt));
+    if (!trace) {
+      throw new Error(
+        `No recorded response in ${config.dir} for ${model}: ${JSON.stringify(
+          prompt.slice(0, 80)
+        )}`
+      );
+    }
+    const usage = toUsage(
+      (trace.raw as { usage?: unknown } | undefined)?.usage
+    );
+    return { text: trace.response ?? "", raw: trace.raw, usage };
+  }
+
+  return { complete };
+}
+
+function replayKey(model: string, prompt: string): string {
+  return `${model}\u0000${prompt}`;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import type { RunOutput, TestResult } from "../core/runner";
+import { compareRuns, renderComparisonMarkdown } from "./compare";
+
+function run(runId: string, results: Partial<TestResult>[]): RunOutput {
+  return {
+    runId,
+    runDir: "",
+    startedAt: "",
+    finishedAt: "",
+    suitePath: "suite.json",
+    models: [{ name: "m", provider_id: "p/m" }],
+    results: results.map((r) => ({
+      testId: "t1",
+      task: "translation",
+      model: "m",
+      provider_id: "p/m",
+      prompt: "",
+      response: "",
+      score: 1,
+      latencyMs: 0,
+      ...r,
+    })),
+    summary: { byModel: {}, overallAvg: 0 },
+  };
+}
+
+describe("compareRuns", () => {
+  test("matches results by model, test and template", () => {
+    const [diff] = compareRuns([
+      run("base", [
+        { template: "en", score: 1 },
+        { template: "mi", score: 1 },
+      ]),
+      run("new", [
+        { template: "en", score: 0 },
+        { template: "mi-formal", score: 1 },
+      ]),
+    ]);
+    expect(diff).toMatchObject({
+      shared: 1,
+      regressions: [{ model: "m", testId: "t1", template: "en", delta: -1 }],
+      onlyInBaseline: [{ model: "m", testId: "t1", template: "mi" }],
+      onlyInTarget: [{ model: "m", testId: "t1", template: "mi-formal" }],
+    });
+    const md = renderComparisonMarkdown([diff!]);
+    expect(md).toContain("| m | t1 [en] |");
+    expect(md).toContain("- m: t1 [mi]\n");
+    expect(md).toContain("- m: t1 [mi-formal]\n");
+  });
+
+  test("leaves the template out for untemplated runs", () => {
+    const [diff] = compareRuns([
+      run("base", [{ testId: "t1" }, { testId: "t2" }]),
+      run("new", [{ testId: "t1" }]),
+    ]);
+    expect(diff!.onlyInBaseline).toEqual([{ model: "m", testId: "t2" }]);
+  });
+});
@@ -0,0 +1,283 @@
+import chalk from "chalk";
+import type { RunOutput, TestResult } from "../core/runner";
+import { resultKey } from "../core/journal";
+import { formatPct } from "./summary";
+import { renderMarkdownTable, renderTable } from "./table";
+
+/** One result, as compare matches them; `template` only for templated runs. */
+export type ResultRef = { model: string; testId: string; template?: string };
+
+export type TestChange = ResultRef & {
+  task: string;
+  before: number;
+  after: number;
+  delta: number;
+};
+
+export type ScoreDelta = {
+  key: string;
+  tests: number;
+  before: number;
+  after: number;
+  delta: number;
+};
+
+/** Diff of one run against the baseline, over the (model, test) pairs both share. */
+export type RunDiff = {
+  baseline: string;
+  target: string;
+  shared: number;
+  regressions: TestChange[];
+  improvements: TestChange[];
+  onlyInBaseline: ResultRef[];
+  onlyInTarget: ResultRef[];
+  byModel: ScoreDelta[];
+  byTask: ScoreDelta[];
+};
+
+/**
+ * Compares every run after the first against the first (the baseline).
+ * Results are matched by (model, testId); score changes smaller than
+ * `threshold` are not listed as regressions or improvements.
+ */
+export function compareRuns(
+  runs: RunOutput[],
+  opts?: { threshold?: number; allowSuiteMismatch?: boolean }
+): RunDiff[] {
+  const [baseline, ...targets] = runs;
+  if (!baseline || targets.length === 0) {
+    throw new Error("compare needs at least two runs");
+  }
+  if (!opts?.allowSuiteMismatch) {
+    for (const t of targets) assertSameSuite(baseline, t);
+  }
+  return targets.map((t) => diffRuns(baseline, t, opts?.threshold ?? 0));
+}
+
+// Runs recorded before suite hashing carry no `suite` and are not checked
+function assertSameSuite(a: RunOutput, b: RunOutput): void {
+  if (!a.suite || !b.suite || a.suite.hash === b.suite.hash) return;
+  const label = (r: RunOutput) => {
+    const name = [r.suite?.name, r.suite?.version].filter(Boolean).join(" ");
+    return `${r.runId} (${name ? `${name}, ` : ""}${r.suite?.hash.slice(
+      0,
+      12
+    )})`;
+  };
+  throw new Error(
+    `Runs used different suites: ${label(a)} vs ${label(
+      b
+    )}. Pass --allow-suite-mismatch to compare anyway.`
+  );
+}
+
+function diffRuns(a: RunOutput, b: RunOutput, threshold: number): RunDiff {
+  const before = indexResults(a.results);
+  const after = indexResults(b.results);
+
+  const changes: TestChange[] = [];
+  const onlyInBaseline: RunDiff["onlyInBaseline"] = [];
+  const onlyInTarget: RunDiff["onlyInTarget"] = [];
+  for (const [key, ra] of before) {
+    const rb = after.get(key);
+    if (!rb) {
+      onlyInBaseline.push(refOf(ra));
+      continue;
+    }
+    changes.push({
+      ...refOf(ra),
+      task: rb.task ?? ra.task ?? "unknown",
+      before: ra.score,
+      after: rb.score,
+      delta: rb.score - ra.score,
+    });
+  }
+  for (const [key, rb] of after) {
+    if (!before.has(key)) onlyInTarget.push(refOf(rb));
+  }
+
+  const byDelta = (x: TestChange, y: TestChange) =>
+    Math.abs(y.delta) - Math.abs(x.delta) ||
+    x.model.localeCompare(y.model) ||
+    testLabel(x).localeCompare(testLabel(y));
+  return {
+    baseline: a.runId,
+    target: b.runId,
+    shared: changes.length,
+    regressions: changes
+      .filter((c) => c.delta < 0 && -c.delta > threshold)
+      .sort(byDelta),
+    improvements: changes
+      .filter((c) => c.delta > 0 && c.delta > threshold)
+      .sort(byDelta),
+    onlyInBaseline,
+    onlyInTarget,
+    byModel: groupDeltas(changes, (c) => c.model),
+    byTask: groupDeltas(changes, (c) => c.task),
+  };
+}
+
+function refOf(r: TestResult): ResultRef {
+  return r.template
+    ? { model: r.model, testId: r.testId, template: r.template }
+    : { model: r.model, testId: r.testId };
+}
+
+// "test [template]" for templated runs, as in JUnit case names
+function testLabel(r: ResultRef): string {
+  return r.template ? `${r.testId} [${r.template}]` : r.testId;
+}
+
+function indexResults(results: TestResult[]): Map<string, TestResult> {
+  return new Map(results.map((r) => [resultKey(r), r]));
+}
+
+function groupDeltas(
+  changes: TestChange[],
+  keyOf: (c: TestChange) => string
+): ScoreDelta[] {
+  const groups = new Map<string, TestChange[]>();
+  for (const c of changes) {
+    const k = keyOf(c);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(c);
+  }
+  return [...groups.entries()]
+    .map(([key, list]) => {
+      const before = list.reduce((acc, c) => acc + c.before, 0) / list.length;
+      const after = list.reduce((acc, c) => acc + c.after, 0) / list.length;
+      return { key, tests: list.length, before, after, delta: after - before };
+    })
+    .sort((x, y) => x.key.localeCompare(y.key));
+}
+
+export function printComparison(diffs: RunDiff[], opts?: { limit?: number }) {
+  const limit = opts?.limit ?? 20;
+  for (const d of diffs) {
+    console.log(chalk.bold(`\nCompare ${d.baseline} → ${d.target}`));
+    console.log(`Shared results: ${d.shared}`);
+    console.log("");
+    console.log(renderTable(...deltaTable("Model", d.byModel, colorDelta)));
+    console.log("");
+    console.log(renderTable(...deltaTable("Task", d.byTask, colorDelta)));
+    printChanges(chalk.red("Regressions"), d.regressions, limit);
+    printChanges(chalk.green("Improvements"), d.improvements, limit);
+    printMissing(`Only in ${d.baseline}`, d.onlyInBaseline, limit);
+    printMissing(`Only in ${d.target}`, d.onlyInTarget, limit);
+  }
+}
+
+function printChanges(title: string, list: TestChange[], limit: number) {
+  console.log(`\n${title}: ${list.length}`);
+  if (!list.length) return;
+  console.log(
+    renderTable(
+      ["Model", "Test", "Before", "After", "Δ"],
+      list
+        .slice(0, limit)
+        .map((c) => [
+          chalk.cyan(c.model),
+          testLabel(c),
+          c.before.toFixed(2),
+          c.after.toFixed(2),
+          colorDelta(c.delta),
+        ])
+    )
+  );
+  if (list.length > limit) console.log(`  … ${list.length - limit} more`);
+}
+
+function printMissing(title: string, list: ResultRef[], limit: number) {
+  if (!list.length) return;
+  console.log(chalk.yellow(`\n${title}: ${list.length}`));
+  for (const m of list.slice(0, limit)) {
+    console.log(`  - ${chalk.cyan(m.model)} ${testLabel(m)}`);
+  }
+  if (list.length > limit) console.log(`  … ${list.length - limit} more`);
+}
+
+export function renderComparisonMarkdown(diffs: RunDiff[]): string {
+  const lines: string[] = [];
+  for (const d of diffs) {
+    lines.push(`# Compare ${d.baseline} → ${d.target}`);
+    lines.push("");
+    lines.push(`- Shared results: ${d.shared}`);
+    lines.push(`- Regressions: ${d.regressions.length}`);
+    lines.push(`- Improvements: ${d.improvements.length}`);
+    lines.push(`- Only in ${d.baseline}: ${d.onlyInBaseline.length}`);
+    lines.push(`- Only in ${d.target}: ${d.onlyInTarget.length}`);
+    lines.push("");
+    lines.push("## By Model");
+    lines.push("");
+    lines.push(renderMarkdownTable(...deltaTable("Model", d.byModel)));
+    lines.push("");
+    lines.push("## By Task");
+    lines.push("");
+    lines.push(renderMarkdownTable(...deltaTable("Task", d.byTask)));
+    for (const [title, list] of [
+      ["Regressions", d.regressions],
+      ["Improvements", d.improvements],
+    ] as const) {
+      lines.push("");
+      lines.push(`## ${title}`);
+      lines.push("");
+      if (!list.length) {
+        lines.push("None.");
+        continue;
+      }
+      lines.push(
+        renderMarkdownTable(
+          ["Model", "Test", "Before", "After", "Δ"],
+          list.map((c) => [
+            c.model,
+            testLabel(c),
+            c.before.toFixed(2),
+            c.after.toFixed(2),
+            formatDelta(c.delta),
+          ])
+        )
+      );
+    }
+    for (const [title, list] of [
+      [`Only in ${d.baseline}`, d.onlyInBaseline],
+      [`Only in ${d.target}`, d.onlyInTarget],
+    ] as const) {
+      if (!list.length) continue;
+      lines.push("");
+      lines.push(`## ${title}`);
+      lines.push("");
+      for (const m of list) lines.push(`- ${m.model}: ${testLabel(m)}`);
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+function deltaTable(
+  label: string,
+  rows: ScoreDelta[],
+  fmt: (d: number) => string = formatDelta
+): [string[], string[][]] {
+  return [
+    [label, "Before", "After", "Δ", "Tests"],
+    rows.map((r) => [
+      r.key,
+      formatPct(r.before),
+      formatPct(r.after),
+      fmt(r.delta),
+      String(r.tests),
+    ]),
+  ];
+}
+
+export function formatDelta(d: number): string {
+  const pp = (d * 100).toFixed(1);
+  return `${d > 0 ? "+" : ""}${pp}pp`;
+}
+
+function colorDelta(d: number): string {
+  const s = formatDelta(d);
+  if (d > 0) return chalk.green(s);
+  if (d < 0) return chalk.red(s);
+  return chalk.gray(s);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import type { RunOutput, TestResult } from "../core/runner";
+import {
+  parseExportFormats,
+  renderJunitXml,
+  renderResultsCsv,
+  renderResultsJsonl,
+} from "./export";
+
+function result(overrides: Partial<TestResult>): TestResult {
+  return {
+    testId: "t1",
+    task: "translation",
+    model: "m",
+    provider_id: "p/m",
+    prompt: "Translate",
+    response: "Kia ora",
+    score: 1,
+    latencyMs: 1500,
+    ...overrides,
+  };
+}
+
+function run(results: TestResult[]): RunOutput {
+  return {
+    runId: "run-1",
+    runDir: "",
+    startedAt: "",
+    finishedAt: "",
+    suitePath: "suite.json",
+    models: [{ name: "m", provider_id: "p/m" }],
+    results,
+    summary: { byModel: {}, overallAvg: 0 },
+  };
+}
+
+describe("renderResultsCsv", () => {
+  test("writes a header and CRLF-terminated rows", () => {
+    const csv = renderResultsCsv(
+      run([result({ expected: ["Kia ora", "Ora"] })])
+    );
+    const lines = csv.split("\r\n");
+    expect(lines[0]).toStartWith("run_id,model,provider_id,test_id,task,");
+    expect(lines[1]).toBe(
+      "run-1,m,p/m,t1,translation,,1,true,,,Kia ora | Ora,Kia ora,,1500,false,,,"
+    );
+    expect(lines[2]).toBe("");
+  });
+
+  test("quotes fields with commas, quotes and line breaks", () => {
+    const csv = renderResultsCsv(
+      run([result({ response: 'He "pai", e hoa\nnē?', expected: "a,b" })])
+    );
+    const row = csv.split("\r\n").slice(1).join("\r\n");
+    expect(row).toContain('"a,b","He ""pai"", e hoa\nnē?"');
+  });
+});
+
+describe("renderResultsJsonl", () => {
+  test("writes one JSON row per result", () => {
+    const rows = renderResultsJsonl(
+      run([result({}), result({ testId: "t2", usage: undefined })])
+    )
+      .trimEnd()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(rows.map((r) => r.test_id)).toEqual(["t1", "t2"]);
+    expect(rows[0]).toMatchObject({ passed: true, input_tokens: null });
+  });
+});
+
+describe("renderJunitXml", () => {
+  test("counts failures and errors per model", () => {
+    const xml = renderJunitXml(
+      run([
+        result({}),
+        result({ testId: "t2", score: 0.5, outcome: "partial" }),
+        result({ testId: "t3", score: 0, error: "HTTP 500" }),
+      ])
+    );
+    expect(xml).toContain(
+      '<testsuite name="m" tests="3" errors="1" failures="1" time="4.500">'
+    );
+    expect(xml).toContain(
+      '<testcase name="t1" classname="m.translation" time="1.500"/>'
+    );
+    expect(xml).toContain(
+      '<failure message="score 0.50 (partial)" type="partial">'
+    );
+    expect(xml).toContain('<error message="HTTP 500">');
+  });
+
+  test("escapes markup and drops control characters", () => {
+    const xml = renderJunitXml(
+      run([
+        result({
+          testId: 'a<b>&"c"',
+          template: "mi",
+          score: 0,
+          response: "<think>x</think> & \u0007done",
+        }),
+      ])
+    );
+    expect(xml).toContain('name="a&lt;b&gt;&amp;&quot;c&quot; [mi]"');
+    expect(xml).toContain(
+      "Response: &lt;think&gt;x&lt;/think&gt; &amp; done</failure>"
+    );
+    expect(xml).not.toContain("\u0007");
+  });
+});
+
+describe("parseExportFormats", () => {
+  test("dedupes formats and rejects unknown ones", () => {
+    expect(parseExportFormats("csv, junit,csv")).toEqual(["csv", "junit"]);
+    expect(() => parseExportFormats("csv,xlsx")).toThrow(
+      'Unknown export format "xlsx"'
+    );
+  });
+});
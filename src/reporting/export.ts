@@ -0,0 +1,217 @@
+import type { RunOutput, TestResult } from "../core/runner";
+
+export const EXPORT_FORMATS = ["csv", "jsonl", "junit"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// File each format is written to in the run directory
+export const EXPORT_FILES: Record<ExportFormat, string> = {
+  csv: "tests.csv",
+  jsonl: "tests.jsonl",
+  junit: "junit.xml",
+};
+
+// "csv,junit" -> ["csv", "junit"]
+export function parseExportFormats(value: string): ExportFormat[] {
+  const formats = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  for (const f of formats) {
+    if (!(EXPORT_FORMATS as readonly string[]).includes(f)) {
+      throw new Error(
+        `Unknown export format "${f}" (expected ${EXPORT_FORMATS.join(", ")})`
+      );
+    }
+  }
+  return [...new Set(formats as ExportFormat[])];
+}
+
+export function renderExport(run: RunOutput, format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return renderResultsCsv(run);
+    case "jsonl":
+      return renderResultsJsonl(run);
+    case "junit":
+      return renderJunitXml(run);
+  }
+}
+
+/** One flat row per (model, test, template), the same in CSV and JSONL. */
+export type ExportRow = {
+  run_id: string;
+  model: string;
+  provider_id: string;
+  test_id: string;
+  task: string;
+  template: string;
+  score: number;
+  passed: boolean;
+  outcome: string;
+  error: string;
+  expected: string;
+  response: string;
+  extracted: string;
+  latency_ms: number;
+  cached: boolean;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost_usd: number | null;
+};
+
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+  "run_id",
+  "model",
+  "provider_id",
+  "test_id",
+  "task",
+  "template",
+  "score",
+  "passed",
+  "outcome",
+  "error",
+  "expected",
+  "response",
+  "extracted",
+  "latency_ms",
+  "cached",
+  "input_tokens",
+  "output_tokens",
+  "cost_usd",
+];
+
+// A result passes when it has no error and full marks, as in traces
+export function passed(r: TestResult): boolean {
+  return !r.error && r.score >= 1;
+}
+
+export function exportRows(run: RunOutput): ExportRow[] {
+  return run.results.map((r) => ({
+    run_id: run.runId,
+    model: r.model,
+    provider_id: r.provider_id,
+    test_id: r.testId,
+    task: r.task ?? "unknown",
+    template: r.template ?? "",
+    score: r.score,
+    passed: passed(r),
+    outcome: r.outcome ?? "",
+    error: r.error ?? "",
+    expected: expectedText(r.expected),
+    response: r.response,
+    extracted: r.extracted ?? "",
+    latency_ms: r.latencyMs,
+    cached: Boolean(r.cached),
+    input_tokens: r.usage?.input_tokens ?? null,
+    output_tokens: r.usage?.output_tokens ?? null,
+    cost_usd: r.usage?.cost ?? null,
+  }));
+}
+
+export function renderResultsJsonl(run: RunOutput): string {
+  return exportRows(run)
+    .map((row) => JSON.stringify(row) + "\n")
+    .join("");
+}
+
+// RFC 4180: header row, CRLF line ends, fields quoted when needed
+export function renderResultsCsv(run: RunOutput): string {
+  const rows = exportRows(run);
+  const cell = (v: ExportRow[keyof ExportRow]) => {
+    const s = v === null ? "" : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((c) => cell(row[c])).join(",")),
+  ]
+    .map((line) => line + "\r\n")
+    .join("");
+}
+
+/**
+ * JUnit XML with one testsuite per model and one testcase per (model, test);
+ * templated runs add the template to the case name. Errored calls are
+ * `<error>`s and results short of full marks are `<failure>`s carrying the
+ * response and the expected answer.
+ */
+export function renderJunitXml(run: RunOutput): string {
+  const byModel = new Map<string, TestResult[]>();
+  for (const r of run.results) {
+    if (!byModel.has(r.model)) byModel.set(r.model, []);
+    byModel.get(r.model)!.push(r);
+  }
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const counts = (list: TestResult[]) => ({
+    tests: list.length,
+    errors: list.filter((r) => r.error).length,
+    failures: list.filter((r) => !r.error && !passed(r)).length,
+    time: seconds(list.reduce((acc, r) => acc + r.latencyMs, 0)),
+  });
+  const attrs = (a: Record<string, string | number>) =>
+    Object.entries(a)
+      .map(([k, v]) => ` ${k}="${xmlEscape(String(v))}"`)
+      .join("");
+
+  const suites = [...byModel.entries()].map(([model, list]) => {
+    const cases = list.map((r) => {
+      const head = `    <testcase${attrs({
+        name: r.template ? `${r.testId} [${r.template}]` : r.testId,
+        classname: `${model}.${r.task ?? "unknown"}`,
+        time: seconds(r.latencyMs),
+      })}`;
+      if (passed(r)) return `${head}/>`;
+      const body = [
+        `Score: ${r.score.toFixed(2)}${r.outcome ? ` (${r.outcome})` : ""}`,
+        ...(r.error ? [`Error: ${r.error}`] : []),
+        `Expected: ${expectedText(r.expected)}`,
+        `Response: ${r.response}`,
+        ...(r.extracted !== undefined ? [`Extracted: ${r.extracted}`] : []),
+      ].join("\n");
+      const element = r.error
+        ? `<error${attrs({ message: r.error })}>`
+        : `<failure${attrs({
+            message: `score ${r.score.toFixed(2)}${
+              r.outcome ? ` (${r.outcome})` : ""
+            }`,
+            type: r.outcome ?? "score",
+          })}>`;
+      return `${head}>\n      ${element}${xmlEscape(body)}</${
+        r.error ? "error" : "failure"
+      }>\n    </testcase>`;
+    });
+    return [
+      `  <testsuite${attrs({ name: model, ...counts(list) })}>`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attrs({ name: run.runId, ...counts(run.results) })}>`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+// Expected answers as one line of text: variants joined with " | "
+function expectedText(expected: unknown): string {
+  if (expected === undefined) return "";
+  if (typeof expected === "string") return expected;
+  if (Array.isArray(expected) && expected.every((e) => typeof e === "string"))
+    return expected.join(" | ");
+  return JSON.stringify(expected);
+}
+
+function xmlEscape(s: string): string {
+  return (
+    s
+      // Control characters are not allowed in XML 1.0, even escaped
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
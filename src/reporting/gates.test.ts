@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import type { RunOutput, TestResult } from "../core/runner";
+import { checkBaseline, checkScoreGates, parseFailUnder } from "./gates";
+
+function run(
+  runId: string,
+  scores: Record<string, number[]>,
+  suiteHash = "h1"
+): RunOutput {
+  const results: TestResult[] = Object.entries(scores).flatMap(
+    ([model, list]) =>
+      list.map((score, i) => ({
+        testId: `t${i}`,
+        task: i % 2 ? "grammar" : "translation",
+        model,
+        provider_id: `p/${model}`,
+        prompt: "",
+        response: "",
+        score,
+        latencyMs: 0,
+      }))
+  );
+  const mean = (l: number[]) => l.reduce((a, b) => a + b, 0) / l.length;
+  return {
+    runId,
+    runDir: "",
+    startedAt: "",
+    finishedAt: "",
+    suitePath: "suite.json",
+    suite: { hash: suiteHash },
+    models: Object.keys(scores).map((name) => ({
+      name,
+      provider_id: `p/${name}`,
+    })),
+    results,
+    summary: {
+      byModel: Object.fromEntries(
+        Object.entries(scores).map(([model, l]) => [
+          model,
+          { tests: l.length, avgScore: mean(l) },
+        ])
+      ),
+      overallAvg: mean(Object.values(scores).flat()),
+    },
+  };
+}
+
+describe("parseFailUnder", () => {
+  test("reads overall and per-task gates", () => {
+    expect(parseFailUnder(["80", "translation=70", "a=b=50"])).toEqual([
+      { min: 80 },
+      { task: "translation", min: 70 },
+      { task: "a=b", min: 50 },
+    ]);
+  });
+
+  test("rejects scores outside 0..100 and empty tasks", () => {
+    for (const spec of ["", "101", "-1", "abc", "=50", "translation="]) {
+      expect(() => parseFailUnder([spec])).toThrow(
+        `Invalid --fail-under "${spec}"`
+      );
+    }
+  });
+});
+
+describe("checkScoreGates", () => {
+  test("gates each model overall and per task", () => {
+    const r = run("r1", { a: [1, 1, 1, 0], b: [0, 1, 0, 1] });
+    const results = checkScoreGates(r, parseFailUnder(["70", "grammar=100"]));
+    expect(results.map((g) => [g.model, g.gate, g.passed])).toEqual([
+      ["a", "fail-under 70", true],
+      ["a", "fail-under grammar=100", false],
+      ["b", "fail-under 70", false],
+      ["b", "fail-under grammar=100", true],
+    ]);
+  });
+
+  test("fails a task gate for a model that ran none of the task", () => {
+    const [gate] = checkScoreGates(run("r1", { a: [1] }), [
+      { task: "grammar", min: 0 },
+    ]);
+    expect(gate).toMatchObject({ passed: false, detail: "no grammar results" });
+  });
+});
+
+describe("checkBaseline", () => {
+  test("fails models that dropped by more than maxDrop points", () => {
+    const before = run("base", { a: [1, 1, 1, 1], b: [1, 1, 1, 1] });
+    const after = run("new", { a: [1, 1, 1, 0.9], b: [1, 1, 1, 0] });
+    const results = checkBaseline(after, before, { maxDrop: 5 });
+    expect(results).toMatchObject([
+      { gate: "baseline base", model: "a", passed: true },
+      { model: "b", passed: false },
+    ]);
+    expect(results[1]!.detail).toBe(
+      "100.0 → 75.0 over 4 tests, 1 regressed (max drop 5)"
+    );
+  });
+
+  test("fails when the runs share no results", () => {
+    const results = checkBaseline(
+      run("new", { a: [1] }),
+      run("base", { b: [1] })
+    );
+    expect(results).toEqual([
+      {
+        gate: "baseline base",
+        model: "*",
+        passed: false,
+        detail: "no (model, test) results shared with the baseline",
+      },
+    ]);
+  });
+
+  test("refuses a different suite unless allowed", () => {
+    const before = run("base", { a: [1] }, "h1");
+    const after = run("new", { a: [0] }, "h2");
+    expect(() => checkBaseline(after, before)).toThrow(
+      "Runs used different suites"
+    );
+    expect(
+      checkBaseline(after, before, { allowSuiteMismatch: true })
+    ).toMatchObject([{ model: "a", passed: false }]);
+  });
+});
@@ -0,0 +1,129 @@
+import chalk from "chalk";
+import type { RunOutput } from "../core/runner";
+import { compareRuns } from "./compare";
+
+/** `--fail-under`: a minimum 0–100 score, overall or for one task. */
+export type ScoreGate = { task?: string; min: number };
+
+/** One gate checked for one model. */
+export type GateResult = {
+  gate: string;
+  model: string;
+  passed: boolean;
+  detail: string;
+};
+
+// "80" -> overall, "translation=70" -> that task
+export function parseFailUnder(specs: string[]): ScoreGate[] {
+  return specs.map((spec) => {
+    const eq = spec.lastIndexOf("=");
+    const task = eq >= 0 ? spec.slice(0, eq).trim() : undefined;
+    const value = (eq >= 0 ? spec.slice(eq + 1) : spec).trim();
+    // Number("") is 0, so a missing percentage would gate at 0
+    const min = value ? Number(value) : NaN;
+    if ((eq >= 0 && !task) || !Number.isFinite(min) || min < 0 || min > 100) {
+      throw new Error(
+        `Invalid --fail-under "${spec}": expected <pct> or <task>=<pct> with pct in 0..100`
+      );
+    }
+    return task ? { task, min } : { min };
+  });
+}
+
+/**
+ * Every model against every gate. The overall gate uses the weighted 0–100
+ * score (the mean score for reports without one); a task gate uses the
+ * model's mean on that task and fails if the model ran none of it.
+ */
+export function checkScoreGates(
+  run: RunOutput,
+  gates: ScoreGate[]
+): GateResult[] {
+  const results: GateResult[] = [];
+  for (const [model, s] of Object.entries(run.summary.byModel)) {
+    for (const g of gates) {
+      const gate = `fail-under ${g.task ? `${g.task}=` : ""}${g.min}`;
+      const actual = g.task
+        ? taskScore(run, model, g.task)
+        : s.score ?? s.avgScore * 100;
+      results.push(
+        actual === undefined
+          ? { gate, model, passed: false, detail: `no ${g.task} results` }
+          : {
+              gate,
+              model,
+              passed: actual >= g.min,
+              detail: `${actual.toFixed(1)} (needs ${g.min})`,
+            }
+      );
+    }
+  }
+  return results;
+}
+
+function taskScore(
+  run: RunOutput,
+  model: string,
+  task: string
+): number | undefined {
+  const stored = run.summary.byModel[model]?.byTask?.[task];
+  if (stored) return stored.avgScore * 100;
+  // Reports from before per-task scores
+  const scores = run.results
+    .filter((r) => r.model === model && (r.task ?? "unknown") === task)
+    .map((r) => r.score);
+  return scores.length
+    ? (100 * scores.reduce((a, b) => a + b, 0)) / scores.length
+    : undefined;
+}
+
+/**
+ * Each model's mean over the tests it shares with `baseline`; the gate
+ * fails when it dropped by more than `maxDrop` points, or when the runs
+ * share no tests at all. Suites must match unless `allowSuiteMismatch`.
+ */
+export function checkBaseline(
+  run: RunOutput,
+  baseline: RunOutput,
+  opts?: { maxDrop?: number; allowSuiteMismatch?: boolean }
+): GateResult[] {
+  const maxDrop = opts?.maxDrop ?? 0;
+  const [diff] = compareRuns([baseline, run], {
+    allowSuiteMismatch: opts?.allowSuiteMismatch,
+  });
+  const gate = `baseline ${baseline.runId}`;
+  if (!diff!.shared) {
+    return [
+      {
+        gate,
+        model: "*",
+        passed: false,
+        detail: "no (model, test) results shared with the baseline",
+      },
+    ];
+  }
+  return diff!.byModel.map((d) => {
+    const regressed = diff!.regressions.filter((c) => c.model === d.key);
+    const drop = -d.delta * 100;
+    return {
+      gate,
+      model: d.key,
+      // Float noise is not a regression
+      passed: drop <= maxDrop + 1e-9,
+      detail: `${(d.before * 100).toFixed(1)} → ${(d.after * 100).toFixed(
+        1
+      )} over ${d.tests} tests${
+        regressed.length ? `, ${regressed.length} regressed` : ""
+      }${maxDrop ? ` (max drop ${maxDrop})` : ""}`,
+    };
+  });
+}
+
+export function printGateResults(results: GateResult[]): void {
+  if (!results.length) return;
+  console.log(chalk.bold("\nGates"));
+  for (const r of results) {
+    const mark = r.passed ? chalk.green("✓") : chalk.red("✗");
+    console.log(`  ${mark} ${r.gate} ${chalk.cyan(r.model)}: ${r.detail}`);
+  }
+}
@@ -0,0 +1,438 @@
+import { traceFileName, type RunOutput, type TestResult } from "../core/runner";
+import { foldMacrons } from "../eval/normalize";
+import { similarity } from "../eval/strategies/distance";
+import type { JudgeVerdict } from "../eval/strategies/judge";
+import { mean } from "../scoring/stats";
+import { formatPct, formatScore } from "./summary";
+
+/**
+ * A single offline page for a run: per-model scores, a model × task
+ * heatmap, and sortable per-model tables whose rows expand into the
+ * prompt, expected answers, response, judge rationale and a diff against
+ * the closest expected answer. No external scripts, styles or fonts.
+ */
+export function renderRunReportHtml(run: RunOutput): string {
+  const id = run.runDir.split("/").pop() ?? run.runId;
+  const models = [...new Set(run.results.map((r) => r.model))];
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Run ${esc(id)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Run ${esc(id)}${run.status === "partial" ? " (partial)" : ""}</h1>
+${overview(run)}
+<h2>By model</h2>
+${modelSummary(run)}
+<h2>Model × task</h2>
+${heatmap(run.results, models)}
+<h2>Results</h2>
+<div class="controls">
+  <input id="filter" type="search" placeholder="Filter by test, task, outcome or text">
+  <label><input id="failures" type="checkbox"> Failures only</label>
+</div>
+${models
+  .map((m) =>
+    resultTable(
+      m,
+      run.results.filter((r) => r.model === m),
+      Boolean(run.templates?.length)
+    )
+  )
+  .join("\n")}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function overview(run: RunOutput): string {
+  const items: [string, string][] = [
+    ["Models", run.models.map((m) => m.name).join(", ")],
+    ["Results", String(run.results.length)],
+    ["Overall avg", formatPct(run.summary.overallAvg)],
+  ];
+  if (run.summary.overallScore !== undefined) {
+    items.push(["Overall score", formatScore(run.summary.overallScore)]);
+  }
+  if (run.filter) items.push(["Filter", run.filter]);
+  if (run.templates) items.push(["Templates", run.templates.join(", ")]);
+  items.push(["Started", run.startedAt], ["Finished", run.finishedAt]);
+  if (run.suite?.name) {
+    items.push([
+      "Suite",
+      `${run.suite.name}${run.suite.version ? ` v${run.suite.version}` : ""}`,
+    ]);
+  }
+  return `<dl class="overview">${items
+    .map(([k, v]) => `<dt>${esc(k)}</dt><dd>${esc(v)}</dd>`)
+    .join("")}</dl>`;
+}
+
+function modelSummary(run: RunOutput): string {
+  const rows = Object.entries(run.summary.byModel).map(([model, s]) => {
+    const errors = run.results.filter((r) => r.model === model && r.error);
+    const ci = s.stats
+      ? ` <span class="muted">(${(s.stats.ci95[0] * 100).toFixed(1)}–${(
+          s.stats.ci95[1] * 100
+        ).toFixed(1)}%)</span>`
+      : "";
+    return `<tr><td>${esc(model)}</td><td class="num">${s.tests}</td>
+<td class="num" style="background:${heat(s.avgScore)}">${formatPct(
+      s.avgScore
+    )}${ci}</td>
+<td class="num">${s.score !== undefined ? s.score.toFixed(1) : "–"}</td>
+<td class="num">${errors.length}</td></tr>`;
+  });
+  return `<table><thead><tr><th>Model</th><th>Tests</th><th>Avg</th><th>Score</th><th>Errors</th></tr></thead>
+<tbody>${rows.join("\n")}</tbody></table>`;
+}
+
+// Mean score per model and task, all templates pooled
+function heatmap(results: TestResult[], models: string[]): string {
+  const tasks = [...new Set(results.map((r) => r.task ?? "unknown"))].sort();
+  const header = tasks.map((t) => `<th>${esc(t)}</th>`).join("");
+  const rows = models.map((m) => {
+    const cells = tasks.map((t) => {
+      const list = results.filter(
+        (r) => r.model === m && (r.task ?? "unknown") === t
+      );
+      if (!list.length) return `<td class="num muted">–</td>`;
+      const avg = mean(list.map((r) => r.score));
+      return `<td class="num" style="background:${heat(avg)}" title="${esc(
+        `${m} · ${t}: ${list.length} tests`
+      )}">${formatPct(avg)}</td>`;
+    });
+    return `<tr><th>${esc(m)}</th>${cells.join("")}</tr>`;
+  });
+  return `<div class="scroll"><table class="heatmap"><thead><tr><th></th>${header}</tr></thead>
+<tbody>${rows.join("\n")}</tbody></table></div>`;
+}
+
+// One <tbody> per result so a row and its details sort together
+function resultTable(
+  model: string,
+  results: TestResult[],
+  withTemplate: boolean
+): string {
+  const headers = [
+    ["Test", "text"],
+    ["Task", "text"],
+    ...(withTemplate ? [["Template", "text"]] : []),
+    ["Score", "num"],
+    ["Outcome", "text"],
+    ["Latency ms", "num"],
+  ];
+  const bodies = results.map((r) => {
+    const failed = Boolean(r.error) || r.score < 1;
+    const search = [r.testId, r.task, r.outcome, r.prompt, r.response]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    const cells = [
+      `<td>${esc(r.testId)}</td>`,
+      `<td>${esc(r.task ?? "")}</td>`,
+      ...(withTemplate ? [`<td>${esc(r.template ?? "")}</td>`] : []),
+      `<td class="num" data-value="${r.score}" style="background:${heat(
+        r.score
+      )}">${r.score.toFixed(2)}</td>`,
+      `<td>${esc(r.error ? "error" : r.outcome ?? "")}</td>`,
+      `<td class="num" data-value="${r.latencyMs}">${r.latencyMs}</td>`,
+    ];
+    return `<tbody data-failed="${failed ? 1 : 0}" data-search="${esc(search)}">
+<tr class="row">${cells.join("")}</tr>
+<tr class="detail" hidden><td colspan="${headers.length}">${detail(r)}</td></tr>
+</tbody>`;
+  });
+  return `<h3>${esc(model)}</h3>
+<table class="results">
+<thead><tr>${headers
+    .map(([h, type]) => `<th data-type="${type}">${esc(h!)}</th>`)
+    .join("")}</tr></thead>
+${bodies.join("\n")}
+</table>`;
+}
+
+function detail(r: TestResult): string {
+  const parts: string[] = [];
+  const field = (label: string, body: string) =>
+    parts.push(`<div class="field"><h4>${esc(label)}</h4>${body}</div>`);
+  field("Prompt", `<pre>${esc(r.prompt)}</pre>`);
+  const variants = expectedStrings(r.expected);
+  if (variants.length) {
+    field(
+      variants.length > 1 ? "Expected (any of)" : "Expected",
+      `<ul>${variants
+        .map((v) => `<li><pre>${esc(v)}</pre></li>`)
+        .join("")}</ul>`
+    );
+  } else if (r.expected !== undefined) {
+    field("Expected", `<pre>${esc(JSON.stringify(r.expected, null, 2))}</pre>`);
+  }
+  field("Response", `<pre>${esc(r.response)}</pre>`);
+  const scored = r.extracted ?? r.response;
+  if (r.extracted !== undefined) {
+    field("Scored (after extraction)", `<pre>${esc(r.extracted)}</pre>`);
+  }
+  // Long answers are not aligned; the table is quadratic in length
+  if (
+    variants.length &&
+    scored &&
+    r.score < 1 &&
+    Math.max(scored.length, ...variants.map((v) => v.length)) <= MAX_DIFF_CHARS
+  ) {
+    field("Difference from closest expected", diffView(scored, variants));
+  }
+  if (r.error) field("Error", `<pre class="error">${esc(r.error)}</pre>`);
+  field(
+    "Score",
+    `<p>${r.score.toFixed(3)}${r.outcome ? ` · ${esc(r.outcome)}` : ""}${
+      r.cached ? " · cached" : ""
+    }</p>`
+  );
+  const verdicts = judgeVerdicts(r.details);
+  if (verdicts.length) {
+    field(
+      "Judge",
+      verdicts
+        .map(
+          (v) =>
+            `<p><strong>${esc(v.model)}</strong> ${v.score} (${(
+              v.normalized * 100
+            ).toFixed(0)}%)${
+              v.errors.length
+                ? ` <span class="tag">${v.errors.map(esc).join(", ")}</span>`
+                : ""
+            }<br>${esc(v.rationale)}</p>`
+        )
+        .join("")
+    );
+  }
+  if (r.samples && r.samples.length > 1) {
+    field(
+      `Samples (${r.samples.length})`,
+      `<ol>${r.samples
+        .map(
+          (s) =>
+            `<li>${s.score.toFixed(2)} · <code>${esc(
+              s.error ?? s.extracted ?? s.response
+            )}</code></li>`
+        )
+        .join("")}</ol>`
+    );
+  }
+  if (r.details && !verdicts.length) {
+    parts.push(
+      `<details><summary>Details</summary><pre>${esc(
+        JSON.stringify(r.details, null, 2)
+      )}</pre></details>`
+    );
+  }
+  parts.push(
+    `<p class="muted"><a href="traces/${encodeURIComponent(
+      traceFileName(r)
+    )}">Trace</a></p>`
+  );
+  return parts.join("\n");
+}
+
+// String answers only; other shapes are shown as JSON
+function expectedStrings(expected: unknown): string[] {
+  const list = Array.isArray(expected) ? expected : [expected];
+  return list.every((v) => typeof v === "string") ? (list as string[]) : [];
+}
+
+function judgeVerdicts(details?: Record<string, unknown>): JudgeVerdict[] {
+  if (!details) return [];
+  if (Array.isArray(details.judges)) return details.judges as JudgeVerdict[];
+  return details.judge ? [details.judge as JudgeVerdict] : [];
+}
+
+/**
+ * The response against the expected variant it is closest to, aligned
+ * character by character. Differences only in a macron are marked apart
+ * from other substitutions, insertions and deletions.
+ */
+function diffView(response: string, variants: string[]): string {
+  const closest = variants.reduce((best, v) =>
+    similarity(response.toLowerCase(), v.toLowerCase()) >
+    similarity(response.toLowerCase(), best.toLowerCase())
+      ? v
+      : best
+  );
+  const ops = alignChars(
+    Array.from(response.normalize("NFC")),
+    Array.from(closest.normalize("NFC"))
+  );
+  // Runs of one kind share a <mark>
+  const side = (pick: "a" | "b") => {
+    const runs: { kind: AlignOp["kind"]; text: string }[] = [];
+    for (const op of ops) {
+      const ch = op[pick];
+      if (ch === undefined) continue;
+      const last = runs[runs.length - 1];
+      if (last?.kind === op.kind) last.text += ch;
+      else runs.push({ kind: op.kind, text: ch });
+    }
+    return runs
+      .map((run) =>
+        run.kind === "same"
+          ? esc(run.text)
+          : `<mark class="${run.kind}">${esc(run.text)}</mark>`
+      )
+      .join("");
+  };
+  const macrons = ops.filter((op) => op.kind === "macron").length;
+  return `<pre class="diff"><span class="muted">response </span>${side(
+    "a"
+  )}\n<span class="muted">expected </span>${side("b")}</pre>${
+    macrons
+      ? `<p class="muted">${macrons} macron difference${
+          macrons === 1 ? "" : "s"
+        }</p>`
+      : ""
+  }`;
+}
+
+const MAX_DIFF_CHARS = 2000;
+
+type AlignOp = {
+  kind: "same" | "macron" | "changed";
+  a?: string;
+  b?: string;
+};
+
+// Levenshtein alignment with a backtrace; a macron-only mismatch costs
+// less than any other, so it is preferred when both fit
+function alignChars(a: string[], b: string[]): AlignOp[] {
+  const cost = (x: string, y: string) =>
+    x === y ? 0 : foldMacrons(x) === foldMacrons(y) ? 0.5 : 1;
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i]![j] = Math.min(
+        d[i - 1]![j]! + 1,
+        d[i]![j - 1]! + 1,
+        d[i - 1]![j - 1]! + cost(a[i - 1]!, b[j - 1]!)
+      );
+    }
+  }
+  const ops: AlignOp[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      d[i]![j] === d[i - 1]![j - 1]! + cost(a[i - 1]!, b[j - 1]!)
+    ) {
+      const c = cost(a[i - 1]!, b[j - 1]!);
+      ops.push({
+        kind: c === 0 ? "same" : c < 1 ? "macron" : "changed",
+        a: a[i - 1],
+        b: b[j - 1],
+      });
+      i--;
+      j--;
+    } else if (i > 0 && d[i]![j] === d[i - 1]![j]! + 1) {
+      ops.push({ kind: "changed", a: a[i - 1] });
+      i--;
+    } else {
+      ops.push({ kind: "changed", b: b[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+// Red (0) to green (1), light enough to read text on
+function heat(score: number): string {
+  return `hsl(${Math.round(score * 120)}, 65%, 82%)`;
+}
+
+function esc(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STYLE = `
+body { font: 14px/1.45 system-ui, sans-serif; margin: 2rem; color: #222; }
+h1 { font-size: 1.5rem; } h2 { margin-top: 2rem; } h3 { margin: 1.5rem 0 .5rem; }
+table { border-collapse: collapse; margin: .5rem 0; }
+th, td { border: 1px solid #ddd; padding: .3rem .6rem; text-align: left; vertical-align: top; }
+thead th { background: #f4f4f4; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.muted { color: #888; }
+.scroll { overflow-x: auto; }
+.overview { display: grid; grid-template-columns: max-content 1fr; gap: .2rem 1rem; }
+.overview dt { font-weight: 600; } .overview dd { margin: 0; }
+.controls { display: flex; gap: 1rem; align-items: center; margin: .5rem 0; }
+.controls input[type=search] { width: 24rem; padding: .3rem; }
+table.results { width: 100%; }
+table.results thead th { cursor: pointer; user-select: none; }
+table.results thead th[data-dir=asc]::after { content: " ▲"; }
+table.results thead th[data-dir=desc]::after { content: " ▼"; }
+tr.row { cursor: pointer; } tr.row:hover td { filter: brightness(.96); }
+tr.detail > td { background: #fafafa; }
+.field h4 { margin: .6rem 0 .2rem; font-size: .85rem; text-transform: uppercase; color: #666; }
+pre { white-space: pre-wrap; margin: 0; font: 13px/1.4 ui-monospace, monospace; }
+ul, ol { margin: 0; padding-left: 1.2rem; }
+mark.macron { background: #ffd27a; }
+mark.changed { background: #ffb3b3; }
+.error { color: #b00; }
+.tag { background: #eee; border-radius: 3px; padding: 0 .3rem; font-size: .85em; }
+`;
+
+// Row expansion, column sorting and filtering; plain DOM, no libraries
+const SCRIPT = `
+document.querySelectorAll("tr.row").forEach(function (row) {
+  row.addEventListener("click", function () {
+    var detail = row.nextElementSibling;
+    detail.hidden = !detail.hidden;
+  });
+});
+document.querySelectorAll("table.results").forEach(function (table) {
+  table.querySelectorAll("thead th").forEach(function (th, col) {
+    th.addEventListener("click", function () {
+      var dir = th.dataset.dir === "asc" ? "desc" : "asc";
+      table.querySelectorAll("thead th").forEach(function (h) { delete h.dataset.dir; });
+      th.dataset.dir = dir;
+      var numeric = th.dataset.type === "num";
+      var key = function (body) {
+        var cell = body.rows[0].cells[col];
+        var v = cell.dataset.value !== undefined ? cell.dataset.value : cell.textContent;
+        return numeric ? Number(v) : v.toLowerCase();
+      };
+      var bodies = Array.prototype.slice.call(table.tBodies);
+      bodies.sort(function (x, y) {
+        var a = key(x), b = key(y);
+        var c = a < b ? -1 : a > b ? 1 : 0;
+        return dir === "asc" ? c : -c;
+      });
+      bodies.forEach(function (b) { table.appendChild(b); });
+    });
+  });
+});
+var filter = document.getElementById("filter");
+var failures = document.getElementById("failures");
+function applyFilter() {
+  var q = filter.value.trim().toLowerCase();
+  document.querySelectorAll("table.results tbody").forEach(function (body) {
+    var show = (!q || body.dataset.search.indexOf(q) >= 0) &&
+      (!failures.checked || body.dataset.failed === "1");
+    body.hidden = !show;
+  });
+}
+filter.addEventListener("input", applyFilter);
+failures.addEventListener("change", applyFilter);
+`;
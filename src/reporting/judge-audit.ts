@@ -0,0 +1,262 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import chalk from "chalk";
+import { z } from "zod";
+import type { RunOutput, TestResult } from "../core/runner";
+import type { JudgeVerdict } from "../eval/strategies/judge";
+import { formatPct } from "./summary";
+import { renderMarkdownTable, renderTable } from "./table";
+
+export const GoldLabelSchema = z
+  .object({
+    testId: z.string().min(1),
+    // Which answer was labelled: the model that gave it, its text, or both
+    model: z.string().min(1).optional(),
+    response: z.string().optional(),
+    // Human score, 0 (wrong) .. 1 (fully correct)
+    score: z.number().min(0).max(1),
+  })
+  .refine((g) => g.model !== undefined || g.response !== undefined, {
+    message: "gold label needs `model` or `response`",
+  });
+
+export type GoldLabel = z.infer<typeof GoldLabelSchema>;
+
+/** Agreement of one judge (or the panel's aggregate) with the gold labels. */
+export type JudgeAgreement = {
+  judge: string;
+  task?: string;
+  items: number;
+  accuracy: number; // pass/fail agreement at the threshold
+  kappa?: number; // undefined when chance agreement is already 1
+  mae: number;
+};
+
+export type JudgeAudit = {
+  threshold: number;
+  gold: number;
+  matched: number;
+  unmatched: GoldLabel[];
+  byJudge: JudgeAgreement[];
+  byTask: JudgeAgreement[];
+};
+
+// Accepts a JSON array or JSONL
+export function loadGoldLabels(path: string): GoldLabel[] {
+  const filePath = resolve(process.cwd(), path);
+  const text = readFileSync(filePath, "utf8").trim();
+  const entries: unknown[] = text.startsWith("[")
+    ? JSON.parse(text)
+    : text
+        .split("\n")
+        .filter((l) => l.trim())
+        .map((l) => JSON.parse(l));
+  return entries.map((e, i) => {
+    const res = GoldLabelSchema.safeParse(e);
+    if (!res.success) {
+      const issue = res.error.issues[0];
+      throw new Error(
+        `Invalid gold label #${i + 1} in ${filePath}: ${
+          issue?.path.join(".") || "entry"
+        } ${issue?.message}`
+      );
+    }
+    return res.data;
+  });
+}
+
+type Pair = { judge: string; task: string; judged: number; gold: number };
+
+/**
+ * Matches gold labels to llm-judge results by test id, plus model and/or
+ * response text, and scores each judge against them. A panel's aggregated
+ * score is audited too, as "panel (<aggregate>)".
+ */
+export function auditJudges(
+  runs: RunOutput[],
+  gold: GoldLabel[],
+  opts?: { threshold?: number }
+): JudgeAudit {
+  const threshold = opts?.threshold ?? 0.5;
+  const pairs: Pair[] = [];
+  const unmatched: GoldLabel[] = [];
+  let matched = 0;
+  for (const g of gold) {
+    const hits = runs.flatMap((run) =>
+      run.results.filter((r) => matchesGold(r, g))
+    );
+    const judgedHits = hits.filter((r) => judgeScores(r).length);
+    if (!judgedHits.length) {
+      unmatched.push(g);
+      continue;
+    }
+    matched += 1;
+    for (const r of judgedHits) {
+      for (const [judge, judged] of judgeScores(r)) {
+        pairs.push({
+          judge,
+          task: r.task ?? "unknown",
+          judged,
+          gold: g.score,
+        });
+      }
+    }
+  }
+  return {
+    threshold,
+    gold: gold.length,
+    matched,
+    unmatched,
+    byJudge: groupAgreement(pairs, (p) => p.judge, threshold),
+    byTask: groupAgreement(
+      pairs,
+      (p) => `${p.task}\0${p.judge}`,
+      threshold
+    ).map((a) => {
+      const [task, judge] = a.judge.split("\0");
+      return { ...a, task, judge: judge! };
+    }),
+  };
+}
+
+function matchesGold(r: TestResult, g: GoldLabel): boolean {
+  if (r.testId !== g.testId || r.error) return false;
+  if (g.model !== undefined && r.model !== g.model) return false;
+  if (
+    g.response !== undefined &&
+    (r.extracted ?? r.response).normalize("NFC").trim() !==
+      g.response.normalize("NFC").trim()
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// [judge name, normalized score] for every judge that graded the result
+function judgeScores(r: TestResult): [string, number][] {
+  const d = r.details ?? {};
+  const single = d.judge as JudgeVerdict | undefined;
+  if (single) return [[single.model, single.normalized]];
+  const panel = d.judges as JudgeVerdict[] | undefined;
+  if (!panel?.length) return [];
+  return [
+    ...panel.map((j): [string, number] => [j.model, j.normalized]),
+    [`panel (${String(d.aggregate ?? "mean")})`, r.score],
+  ];
+}
+
+function groupAgreement(
+  pairs: Pair[],
+  keyOf: (p: Pair) => string,
+  threshold: number
+): JudgeAgreement[] {
+  const groups = new Map<string, Pair[]>();
+  for (const p of pairs) {
+    const k = keyOf(p);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(p);
+  }
+  return [...groups.entries()]
+    .map(([judge, list]) => {
+      const judged = list.map((p) => p.judged >= threshold);
+      const gold = list.map((p) => p.gold >= threshold);
+      const agree = judged.filter((j, i) => j === gold[i]).length;
+      return {
+        judge,
+        items: list.length,
+        accuracy: agree / list.length,
+        kappa: cohensKappa(judged, gold),
+        mae:
+          list.reduce((acc, p) => acc + Math.abs(p.judged - p.gold), 0) /
+          list.length,
+      };
+    })
+    .sort((a, b) => a.judge.localeCompare(b.judge));
+}
+
+// Binary Cohen's kappa; undefined when both raters are constant and agree
+export function cohensKappa(a: boolean[], b: boolean[]): number | undefined {
+  const n = a.length;
+  if (!n) return undefined;
+  const observed = a.filter((x, i) => x === b[i]).length / n;
+  const pa = a.filter(Boolean).length / n;
+  const pb = b.filter(Boolean).length / n;
+  const chance = pa * pb + (1 - pa) * (1 - pb);
+  if (chance === 1) return undefined;
+  return (observed - chance) / (1 - chance);
+}
+
+export function printJudgeAudit(audit: JudgeAudit): void {
+  console.log(chalk.bold("\nJudge agreement with gold labels"));
+  console.log(
+    `Gold labels: ${audit.gold}, matched: ${audit.matched}, pass threshold: ${audit.threshold}`
+  );
+  console.log("");
+  console.log(renderTable(...agreementTable(audit.byJudge, false)));
+  console.log(chalk.bold("\nBy task:"));
+  console.log(renderTable(...agreementTable(audit.byTask, true)));
+  if (audit.unmatched.length) {
+    console.log(
+      chalk.yellow(
+        `\nGold labels with no judged result: ${audit.unmatched.length}`
+      )
+    );
+    for (const g of audit.unmatched.slice(0, 20)) {
+      console.log(`  - ${g.testId}${g.model ? ` (${g.model})` : ""}`);
+    }
+    if (audit.unmatched.length > 20) {
+      console.log(`  … ${audit.unmatched.length - 20} more`);
+    }
+  }
+}
+
+export function renderJudgeAuditMarkdown(audit: JudgeAudit): string {
+  const lines: string[] = [];
+  lines.push("# Judge Audit");
+  lines.push("");
+  lines.push(`- Gold labels: ${audit.gold}`);
+  lines.push(`- Matched: ${audit.matched}`);
+  lines.push(`- Pass threshold: ${audit.threshold}`);
+  lines.push("");
+  lines.push("## By Judge");
+  lines.push("");
+  lines.push(renderMarkdownTable(...agreementTable(audit.byJudge, false)));
+  lines.push("");
+  lines.push("## By Task");
+  lines.push("");
+  lines.push(renderMarkdownTable(...agreementTable(audit.byTask, true)));
+  if (audit.unmatched.length) {
+    lines.push("");
+    lines.push("## Unmatched Gold Labels");
+    lines.push("");
+    for (const g of audit.unmatched) {
+      lines.push(`- ${g.testId}${g.model ? ` (${g.model})` : ""}`);
+    }
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+function agreementTable(
+  rows: JudgeAgreement[],
+  withTask: boolean
+): [string[], string[][]] {
+  return [
+    [
+      ...(withTask ? ["Task"] : []),
+      "Judge",
+      "Items",
+      "Accuracy",
+      "Kappa",
+      "MAE",
+    ],
+    rows.map((r) => [
+      ...(withTask ? [r.task ?? "unknown"] : []),
+      r.judge,
+      String(r.items),
+      formatPct(r.accuracy),
+      r.kappa === undefined ? "-" : r.kappa.toFixed(2),
+      r.mae.toFixed(3),
+    ]),
+  ];
+}
@@ -0,0 +1,301 @@
+import chalk from "chalk";
+import type { RunOutput, TestResult } from "../core/runner";
+import { sha256 } from "../core/hash";
+import {
+  aggregateScores,
+  DEFAULT_SCORING_CONFIG,
+  scoringFailed,
+} from "../scoring/aggregator";
+import { formatPct, formatScore } from "./summary";
+import { renderMarkdownTable, renderTable } from "./table";
+
+export type LeaderboardMode = "latest" | "best";
+
+export type LeaderboardEntry = {
+  rank: number;
+  model: string;
+  // Runs made with --templates get one entry per template
+  template?: string;
+  provider_id?: string;
+  // Task-weighted 0–100 score (100 × mean score for older reports)
+  score: number;
+  tests: number;
+  byTask: Record<string, number>;
+  taskRanks: Record<string, number>;
+  runId: string;
+  finishedAt: string;
+};
+
+/**
+ * One board per selected test set (`selectionHash`), so runs of different
+ * suite versions or filters are never ranked together.
+ */
+export type SuiteLeaderboard = {
+  selectionHash: string;
+  suitePath: string;
+  // From the suite manifest, when the runs used one
+  suiteName?: string;
+  suiteVersion?: string;
+  runs: number;
+  tasks: string[];
+  entries: LeaderboardEntry[];
+};
+
+export type Leaderboard = {
+  generatedAt: string;
+  mode: LeaderboardMode;
+  // Partial (interrupted) runs are left out
+  skippedPartialRuns: string[];
+  suites: SuiteLeaderboard[];
+};
+
+export function buildLeaderboard(
+  reports: RunOutput[],
+  opts: { mode: LeaderboardMode }
+): Leaderboard {
+  const skippedPartialRuns: string[] = [];
+  const bySuite = new Map<string, RunOutput[]>();
+  for (const r of reports) {
+    if (r.status === "partial") {
+      skippedPartialRuns.push(r.runId);
+      continue;
+    }
+    const key = suiteKey(r);
+    if (!bySuite.has(key)) bySuite.set(key, []);
+    bySuite.get(key)!.push(r);
+  }
+
+  const suites: SuiteLeaderboard[] = [];
+  for (const [selectionHash, runs] of bySuite) {
+    const best = new Map<
+      string,
+      Omit<LeaderboardEntry, "rank" | "taskRanks">
+    >();
+    for (const run of runs) {
+      for (const candidate of runEntries(run)) {
+        const key = entryKey(candidate);
+        const current = best.get(key);
+        const replace =
+          !current ||
+          (opts.mode === "best"
+            ? candidate.score > current.score
+            : candidate.finishedAt > current.finishedAt);
+        if (replace) best.set(key, candidate);
+      }
+    }
+
+    const tasks = [
+      ...new Set([...best.values()].flatMap((e) => Object.keys(e.byTask))),
+    ].sort();
+    const taskRanks = new Map<string, Record<string, number>>();
+    for (const task of tasks) {
+      rankBy(
+        [...best.values()].filter((e) => task in e.byTask),
+        (e) => e.byTask[task] ?? 0
+      ).forEach(({ item, rank }) => {
+        const key = entryKey(item);
+        if (!taskRanks.has(key)) taskRanks.set(key, {});
+        taskRanks.get(key)![task] = rank;
+      });
+    }
+    const entries = rankBy([...best.values()], (e) => e.score).map(
+      ({ item, rank }) => ({
+        rank,
+        ...item,
+        taskRanks: taskRanks.get(entryKey(item)) ?? {},
+      })
+    );
+
+    const latest = runs[runs.length - 1]!;
+    suites.push({
+      selectionHash,
+      suitePath: latest.suitePath,
+      suiteName: latest.suite?.name,
+      suiteVersion: latest.suite?.version,
+      runs: runs.length,
+      tasks,
+      entries,
+    });
+  }
+  // Most recently used suite first
+  suites.sort((a, b) => latestFinish(b, reports) - latestFinish(a, reports));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    mode: opts.mode,
+    skippedPartialRuns,
+    suites,
+  };
+}
+
+type Candidate = Omit<LeaderboardEntry, "rank" | "taskRanks">;
+
+// One entry per model, or per model and template for templated runs, whose
+// templates would otherwise be pooled into one score
+function runEntries(run: RunOutput): Candidate[] {
+  const entries: Candidate[] = [];
+  for (const [model, s] of Object.entries(run.summary.byModel)) {
+    const own = run.results.filter((r) => r.model === model);
+    const base = {
+      model,
+      provider_id: run.models.find((m) => m.name === model)?.provider_id,
+      runId: run.runId,
+      finishedAt: run.finishedAt,
+    };
+    if (!run.templates?.length) {
+      entries.push({
+        ...base,
+        score: s.score ?? s.avgScore * 100,
+        tests: s.tests,
+        byTask: taskScores(own),
+      });
+      continue;
+    }
+    for (const template of run.templates) {
+      const list = own.filter((r) => r.template === template);
+      if (!list.length) continue;
+      entries.push({
+        ...base,
+        template,
+        score: aggregateScores(
+          list,
+          run.summary.scoring ?? DEFAULT_SCORING_CONFIG
+        ).score,
+        tests: list.length,
+        byTask: taskScores(list),
+      });
+    }
+  }
+  return entries;
+}
+
+function entryKey(e: { model: string; template?: string }): string {
+  return e.template ? `${e.model}\u0000${e.template}` : e.model;
+}
+
+// Reports written before suite hashing are grouped by their set of test ids
+function suiteKey(run: RunOutput): string {
+  if (run.selectionHash) return run.selectionHash;
+  const ids = [...new Set(run.results.map((r) => r.testId))].sort();
+  return `legacy-${sha256(ids.join("\n")).slice(0, 16)}`;
+}
+
+function latestFinish(suite: SuiteLeaderboard, reports: RunOutput[]): number {
+  return Math.max(
+    ...reports
+      .filter(
+        (r) => r.status !== "partial" && suiteKey(r) === suite.selectionHash
+      )
+      .map((r) => Date.parse(r.finishedAt))
+  );
+}
+
+function taskScores(results: TestResult[]): Record<string, number> {
+  const sums: Record<string, { n: number; sum: number }> = {};
+  for (const r of results) {
+    if (scoringFailed(r)) continue;
+    const task = r.task ?? "unknown";
+    sums[task] ??= { n: 0, sum: 0 };
+    sums[task].n += 1;
+    sums[task].sum += r.score;
+  }
+  return Object.fromEntries(
+    Object.entries(sums).map(([k, v]) => [k, v.sum / v.n])
+  );
+}
+
+// Competition ranking: equal scores share a rank (1, 1, 3)
+function rankBy<T>(
+  items: T[],
+  scoreOf: (t: T) => number
+): { item: T; rank: number }[] {
+  const sorted = [...items].sort((a, b) => scoreOf(b) - scoreOf(a));
+  return sorted.map((item, i) => {
+    const first = sorted.findIndex((o) => scoreOf(o) === scoreOf(item));
+    return { item, rank: (first === -1 ? i : first) + 1 };
+  });
+}
+
+export function printLeaderboard(lb: Leaderboard): void {
+  if (lb.suites.length > 1) {
+    console.log(
+      chalk.yellow(
+        `${lb.suites.length} suite versions found; each has its own board. Use --suite <hash> to pick one.`
+      )
+    );
+  }
+  if (lb.skippedPartialRuns.length) {
+    console.log(
+      chalk.gray(`Skipped ${lb.skippedPartialRuns.length} partial run(s)`)
+    );
+  }
+  for (const suite of lb.suites) {
+    console.log(
+      chalk.bold(`\nSuite ${suiteLabel(suite)}`) +
+        chalk.gray(` ${suite.suitePath} (${suite.runs} runs, ${lb.mode})`)
+    );
+    console.log(
+      renderTable(
+        ...leaderboardTable(suite, (m) => chalk.cyan(m), formatRankedPct)
+      )
+    );
+  }
+  console.log(chalk.gray("\n* best score for the task"));
+}
+
+export function renderLeaderboardMarkdown(lb: Leaderboard): string {
+  const lines: string[] = [];
+  lines.push("# Leaderboard");
+  lines.push("");
+  lines.push(`- Generated: ${lb.generatedAt}`);
+  lines.push(`- Mode: ${lb.mode}`);
+  for (const suite of lb.suites) {
+    lines.push("");
+    lines.push(`## Suite ${suiteLabel(suite)}`);
+    lines.push("");
+    lines.push(`- Path: ${suite.suitePath}`);
+    lines.push(`- Runs: ${suite.runs}`);
+    lines.push("");
+    lines.push(
+      renderMarkdownTable(...leaderboardTable(suite, (m) => m, formatRankedPct))
+    );
+  }
+  lines.push("");
+  lines.push("\\* best score for the task");
+  lines.push("");
+  return lines.join("\n");
+}
+
+// "core-reo 3.1 (ab12cd34ef56)" or just the short hash
+function suiteLabel(suite: SuiteLeaderboard): string {
+  const hash = suite.selectionHash.slice(0, 12);
+  if (!suite.suiteName) return hash;
+  return `${suite.suiteName}${
+    suite.suiteVersion ? ` ${suite.suiteVersion}` : ""
+  } (${hash})`;
+}
+
+function leaderboardTable(
+  suite: SuiteLeaderboard,
+  fmtModel: (m: string) => string,
+  fmtTask: (score: number | undefined, rank: number | undefined) => string
+): [string[], string[][]] {
+  return [
+    ["#", "Model", "Score", ...suite.tasks, "Run"],
+    suite.entries.map((e) => [
+      String(e.rank),
+      fmtModel(e.model) + (e.template ? ` [${e.template}]` : ""),
+      formatScore(e.score),
+      ...suite.tasks.map((t) => fmtTask(e.byTask[t], e.taskRanks[t])),
+      e.runId,
+    ]),
+  ];
+}
+
+function formatRankedPct(
+  score: number | undefined,
+  rank: number | undefined
+): string {
+  if (score === undefined) return "–";
+  return rank === 1 ? `${formatPct(score)}*` : formatPct(score);
+}
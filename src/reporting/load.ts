@@ -0,0 +1,33 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type { RunOutput } from "../core/runner";
+
+// Accepts a run directory or a path to its report.json
+export function loadRunReport(path: string): RunOutput {
+  const abs = resolve(process.cwd(), path);
+  const reportPath =
+    existsSync(abs) && statSync(abs).isDirectory()
+      ? join(abs, "report.json")
+      : abs;
+  if (!existsSync(reportPath)) {
+    throw new Error(`Report not found at ${reportPath}`);
+  }
+  return JSON.parse(readFileSync(reportPath, "utf8")) as RunOutput;
+}
+
+// Every results/<run-id>/report.json under `resultsDir`, oldest first
+export function scanRunReports(resultsDir: string): RunOutput[] {
+  const abs = resolve(process.cwd(), resultsDir);
+  if (!existsSync(abs)) return [];
+  const reports: RunOutput[] = [];
+  for (const name of readdirSync(abs).sort()) {
+    const reportPath = join(abs, name, "report.json");
+    if (!existsSync(reportPath)) continue;
+    try {
+      reports.push(JSON.parse(readFileSync(reportPath, "utf8")) as RunOutput);
+    } catch {
+      // skip unreadable reports
+    }
+  }
+  return reports;
+}
@@ -0,0 +1,125 @@
+import chalk from "chalk";
+import type { PlannedPair, RunPlan } from "../core/plan";
+import { formatUsd, type TokenUsage } from "../scoring/cost";
+import { renderTable } from "./table";
+
+/** Terminal view of a dry run: the matrix, call counts and estimates. */
+export function printRunPlan(plan: RunPlan): void {
+  console.log(chalk.bold("\nDry run: no calls made"));
+  const templates = [
+    ...new Set(plan.pairs.map((p) => p.template).filter(Boolean)),
+  ];
+  console.log("Matrix:");
+  for (const m of plan.byModel) {
+    const tests = new Set(
+      plan.pairs.filter((p) => p.model === m.model).map((p) => p.testId)
+    ).size;
+    const skipped = m.skipped
+      ? chalk.gray(` (${m.skipped} already done, skipped)`)
+      : "";
+    console.log(
+      `  - ${chalk.cyan(m.model)} (${m.provider_id}): ${tests} tests${
+        templates.length ? ` × ${templates.length} templates` : ""
+      }${skipped}`
+    );
+  }
+  if (templates.length) console.log(`Templates: ${templates.join(", ")}`);
+
+  console.log("Tests (per model and template):");
+  console.log(indent(renderTable(...testTable(plan.pairs))));
+  console.log("By model:");
+  console.log(indent(renderTable(...modelTable(plan))));
+
+  const { outputTokens, callMs } = plan.assumptions;
+  console.log(
+    `Calls: ${plan.calls} model, ${plan.judgeCalls} judge (judge re-asks not counted)`
+  );
+  console.log(
+    `Tokens: ~${formatTokens(plan.total)}` +
+      chalk.gray(`, replies assumed ${outputTokens} tokens`)
+  );
+  console.log(
+    `Cost: ${
+      plan.total?.cost !== undefined ? `~${formatUsd(plan.total.cost)}` : "–"
+    }` +
+      (plan.unpriced.length
+        ? chalk.yellow(` (no pricing for ${plan.unpriced.join(", ")})`)
+        : "")
+  );
+  console.log(
+    `Wall time: ~${formatDuration(plan.wallMs)}` +
+      chalk.gray(
+        ` (bound by ${BOUND_FLAGS[plan.bound]}; ${(callMs / 1000).toFixed(
+          1
+        )}s per call assumed)`
+      )
+  );
+}
+
+const BOUND_FLAGS: Record<RunPlan["bound"], string> = {
+  concurrency: "--concurrency",
+  rpm: "RPM limits",
+  tpm: "TPM limits",
+};
+
+// One row per test; every model runs the same calls for it
+function testTable(pairs: PlannedPair[]): [string[], string[][]] {
+  const seen = new Map<string, PlannedPair>();
+  for (const p of pairs) {
+    if (!seen.has(p.testId)) seen.set(p.testId, p);
+  }
+  return [
+    ["Test", "Task", "Calls", "Judge calls", "Input tokens"],
+    [...seen.values()].map((p) => [
+      p.testId,
+      p.task,
+      String(p.calls),
+      String(p.judgeCalls),
+      String(p.usage.input_tokens),
+    ]),
+  ];
+}
+
+function modelTable(plan: RunPlan): [string[], string[][]] {
+  const row = (label: string, calls: number, u: TokenUsage | undefined) => [
+    label,
+    String(calls),
+    String(u?.input_tokens ?? 0),
+    String(u?.output_tokens ?? 0),
+    u?.cost !== undefined ? formatUsd(u.cost) : "–",
+  ];
+  return [
+    ["Model", "Calls", "Input tokens", "Output tokens", "Cost"],
+    [
+      ...plan.byModel.map((m) => row(m.model, m.calls, m.usage)),
+      ...Object.entries(plan.judges).map(([name, j]) =>
+        row(`judge (${name})`, j.calls, j.usage)
+      ),
+      row("total", plan.calls + plan.judgeCalls, plan.total),
+    ],
+  ];
+}
+
+function formatTokens(u?: TokenUsage): string {
+  if (!u) return "0";
+  return `${u.input_tokens + u.output_tokens} (${u.input_tokens} in, ${
+    u.output_tokens
+  } out)`;
+}
+
+// "45s", "12m 30s", "3h 05m"
+export function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600)
+    return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s`;
+  const m = Math.round(s / 60);
+  return `${Math.floor(m / 60)}h ${String(m % 60).padStart(2, "0")}m`;
+}
+
+function indent(block: string): string {
+  return block
+    .split("\n")
+    .map((l) => `  ${l}`)
+    .join("\n");
+}
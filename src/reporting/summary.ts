@@ -1,38 +1,430 @@
 import chalk from "chalk";
 import type { RunOutput } from "../core/runner";
+import type { ScoreStats } from "../scoring/stats";
+import { formatUsd, type TokenUsage } from "../scoring/cost";
+import { renderMarkdownTable, renderTable } from "./table";
+import type { CircuitReport } from "../core/throttle";
+import type { Percentiles } from "../scoring/latency";
 
 export function printRunSummary(run: RunOutput): void {
   const id = run.runDir.split("/").pop() ?? run.runId;
-  console.log(chalk.bold(`\nRun ${id}`));
+  console.log(
+    chalk.bold(`\nRun ${id}`) +
+      (run.status === "partial" ? chalk.yellow(" (partial)") : "")
+  );
   console.log(
     `Models: ${run.models.map((m) => chalk.cyan(m.name)).join(", ")}`
   );
   console.log(`Tests: ${run.results.length}`);
+  if (run.filter) console.log(`Filter: ${run.filter}`);
+  if (run.templates) console.log(`Templates: ${run.templates.join(", ")}`);
+  for (const c of run.circuits ?? []) {
+    console.log(chalk.yellow(`Circuit breaker: ${describeCircuit(c)}`));
+  }
   console.log(`Overall avg: ${formatPct(run.summary.overallAvg)}`);
+  if (run.summary.overallScore !== undefined) {
+    console.log(`Overall score: ${formatScore(run.summary.overallScore)}`);
+  }
   console.log("By model:");
   for (const [model, s] of Object.entries(run.summary.byModel)) {
+    const score = s.score !== undefined ? ` · ${formatScore(s.score)}` : "";
+    const macron = s.outcomes?.["macron-only"]
+      ? chalk.yellow(` · ${s.outcomes["macron-only"]} macron-only errors`)
+      : "";
+    const unscored = s.unscored ? chalk.red(` · ${formatUnscored(s)}`) : "";
     console.log(
-      `  - ${chalk.cyan(model)}: ${formatPct(s.avgScore)} (${s.tests} tests)`
+      `  - ${chalk.cyan(model)}: ${formatPct(s.avgScore)}${
+        s.stats ? chalk.gray(` ${formatInterval(s.stats.ci95)}`) : ""
+      } (${s.tests} tests)${score}${formatSampling(
+        s.stats
+      )}${macron}${unscored}`
     );
   }
+  const categories = categoryTable(run);
+  if (categories) {
+    console.log("By category:");
+    console.log(indent(renderTable(...categories)));
+  }
+  const tasks = taskTable(run);
+  if (tasks) {
+    console.log("By task:");
+    console.log(indent(renderTable(...tasks)));
+  }
+  const cost = costTable(run);
+  if (cost) {
+    console.log("Cost:");
+    console.log(indent(renderTable(...cost)));
+  }
+  const taskCost = taskCostTable(run);
+  if (taskCost) {
+    console.log("Cost by task:");
+    console.log(indent(renderTable(...taskCost)));
+  }
+  const latency = latencyTable(run);
+  if (latency) {
+    console.log("Latency:");
+    console.log(indent(renderTable(...latency)));
+  }
+  const mcq = mcqTable(run);
+  if (mcq) {
+    console.log("Multiple choice:");
+    console.log(indent(renderTable(...mcq)));
+  }
+  const templates = templateTable(run);
+  if (templates) {
+    console.log("By template:");
+    console.log(indent(renderTable(...templates)));
+  }
+  const langs = langTable(run);
+  if (langs) {
+    console.log("By instruction language:");
+    console.log(indent(renderTable(...langs)));
+  }
 }
 
-function formatPct(v: number): string {
+// "openai/o3 paused after 5 consecutive failures, stopped (40 calls refused): <error>"
+function describeCircuit(c: CircuitReport): string {
+  const target = c.key.split("|").pop();
+  const refused = c.rejected ? ` (${c.rejected} calls refused)` : "";
+  return `${target} paused after ${c.failures} consecutive failures, ${c.state}${refused}: ${c.lastError}`;
+}
+
+export function formatPct(v: number): string {
   return `${(v * 100).toFixed(1)}%`;
 }
 
+export function formatScore(v: number): string {
+  return `${v.toFixed(1)}/100`;
+}
+
+// Bootstrap 95% interval, e.g. "(61.2–78.4%)"
+export function formatInterval([lo, hi]: [number, number]): string {
+  return `(${(lo * 100).toFixed(1)}–${(hi * 100).toFixed(1)}%)`;
+}
+
+// Results left out of the scores because their judge or evaluator failed
+function formatUnscored(s: { unscored?: number }): string {
+  return `${s.unscored} unscored (judge or evaluator failed; --resume --retry-errors to redo)`;
+}
+
+// Spread and pass@k, only when tests were sampled more than once
+function formatSampling(stats?: ScoreStats): string {
+  if (!stats || stats.samples < 2) return "";
+  return ` · ${stats.samples} samples, sd ${(stats.std * 100).toFixed(
+    1
+  )}pp, pass@1 ${formatPct(stats.passAt1)}, pass@${stats.samples} ${formatPct(
+    stats.passAtK
+  )}`;
+}
+
 export function renderRunSummaryMarkdown(run: RunOutput): string {
   const id = run.runDir.split("/").pop() ?? run.runId;
   const lines: string[] = [];
-  lines.push(`# Run ${id}`);
+  lines.push(`# Run ${id}${run.status === "partial" ? " (partial)" : ""}`);
   lines.push("");
   lines.push(`- Models: ${run.models.map((m) => m.name).join(", ")}`);
   lines.push(`- Tests: ${run.results.length}`);
+  if (run.filter) lines.push(`- Filter: \`${run.filter}\``);
+  if (run.templates) lines.push(`- Templates: ${run.templates.join(", ")}`);
+  for (const c of run.circuits ?? []) {
+    lines.push(`- Circuit breaker: ${describeCircuit(c)}`);
+  }
   lines.push(`- Overall Avg: ${formatPct(run.summary.overallAvg)}`);
+  if (run.summary.overallScore !== undefined) {
+    lines.push(`- Overall Score: ${formatScore(run.summary.overallScore)}`);
+  }
   lines.push("");
   lines.push("## By Model");
   for (const [model, s] of Object.entries(run.summary.byModel)) {
-    lines.push(`- ${model}: ${formatPct(s.avgScore)} (${s.tests} tests)`);
+    const score = s.score !== undefined ? ` · ${formatScore(s.score)}` : "";
+    const macron = s.outcomes?.["macron-only"]
+      ? ` · ${s.outcomes["macron-only"]} macron-only errors`
+      : "";
+    const ci = s.stats ? ` ${formatInterval(s.stats.ci95)}` : "";
+    const unscored = s.unscored ? ` · ${formatUnscored(s)}` : "";
+    lines.push(
+      `- ${model}: ${formatPct(s.avgScore)}${ci} (${
+        s.tests
+      } tests)${score}${formatSampling(s.stats)}${macron}${unscored}`
+    );
+  }
+  const categories = categoryTable(run);
+  if (categories) {
+    lines.push("");
+    lines.push("## By Category");
+    lines.push("");
+    lines.push(renderMarkdownTable(...categories));
+  }
+  const tasks = taskTable(run);
+  if (tasks) {
+    lines.push("");
+    lines.push("## By Task");
+    lines.push("");
+    lines.push(renderMarkdownTable(...tasks));
+  }
+  const cost = costTable(run);
+  if (cost) {
+    lines.push("");
+    lines.push("## Cost");
+    lines.push("");
+    lines.push(renderMarkdownTable(...cost));
+  }
+  const taskCost = taskCostTable(run);
+  if (taskCost) {
+    lines.push("");
+    lines.push("## Cost by Task");
+    lines.push("");
+    lines.push(renderMarkdownTable(...taskCost));
+  }
+  const latency = latencyTable(run);
+  if (latency) {
+    lines.push("");
+    lines.push("## Latency");
+    lines.push("");
+    lines.push(renderMarkdownTable(...latency));
+  }
+  const mcq = mcqTable(run);
+  if (mcq) {
+    lines.push("");
+    lines.push("## Multiple Choice");
+    lines.push("");
+    lines.push(renderMarkdownTable(...mcq));
+  }
+  const templates = templateTable(run);
+  if (templates) {
+    lines.push("");
+    lines.push("## By Template");
+    lines.push("");
+    lines.push(renderMarkdownTable(...templates));
+  }
+  const langs = langTable(run);
+  if (langs) {
+    lines.push("");
+    lines.push("## By Instruction Language");
+    lines.push("");
+    lines.push(renderMarkdownTable(...langs));
   }
   return lines.join("\n");
 }
+
+// Model rows × category columns (header carries the weight)
+function categoryTable(run: RunOutput): [string[], string[][]] | undefined {
+  const models = Object.entries(run.summary.byModel);
+  const order = Object.keys(run.summary.scoring?.categories ?? {});
+  const present = [
+    ...new Set(models.flatMap(([, s]) => Object.keys(s.byCategory ?? {}))),
+  ].sort(
+    (a, b) =>
+      (order.indexOf(a) + 1 || Infinity) - (order.indexOf(b) + 1 || Infinity)
+  );
+  if (!present.length) return undefined;
+  const weightOf = (c: string) =>
+    models.find(([, s]) => s.byCategory?.[c])?.[1].byCategory?.[c]?.weight ?? 0;
+  return [
+    [
+      "Model",
+      ...present.map((c) => `${c} (${Math.round(weightOf(c) * 100)}%)`),
+      "Score",
+    ],
+    models.map(([model, s]) => [
+      model,
+      ...present.map((c) => {
+        const cat = s.byCategory?.[c];
+        return cat ? formatPct(cat.avgScore) : "–";
+      }),
+      s.score !== undefined ? s.score.toFixed(1) : "–",
+    ]),
+  ];
+}
+
+// Task rows × model columns
+function taskTable(run: RunOutput): [string[], string[][]] | undefined {
+  const tasks = Object.entries(run.summary.byTask ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  if (!tasks.length) return undefined;
+  const models = Object.entries(run.summary.byModel);
+  return [
+    ["Task", "Category", "Tests", ...models.map(([m]) => m)],
+    tasks.map(([task, t]) => [
+      task,
+      t.category,
+      String(t.tests),
+      ...models.map(([, s]) => {
+        const ts = s.byTask?.[task];
+        const stats = s.taskStats?.[task];
+        if (!ts) return "–";
+        return stats
+          ? `${formatPct(ts.avgScore)} ${formatInterval(stats.ci95)}`
+          : formatPct(ts.avgScore);
+      }),
+    ]),
+  ];
+}
+
+// Model rows, then the judge and the total; "–" where no pricing is known
+function costTable(run: RunOutput): [string[], string[][]] | undefined {
+  const usage = run.summary.usage;
+  if (!usage?.total) return undefined;
+  const row = (label: string, u: TokenUsage) => [
+    label,
+    String(u.input_tokens),
+    String(u.output_tokens),
+    u.cost !== undefined ? formatUsd(u.cost) : "–",
+  ];
+  return [
+    ["Model", "Input tokens", "Output tokens", "Cost"],
+    [
+      ...Object.entries(usage.byModel).map(([m, u]) => row(m, u)),
+      ...(usage.judge ? [row("judge", usage.judge)] : []),
+      row("total", usage.total),
+    ],
+  ];
+}
+
+function taskCostTable(run: RunOutput): [string[], string[][]] | undefined {
+  const byTask = Object.entries(run.summary.usage?.byTask ?? {}).sort(
+    ([a], [b]) => a.localeCompare(b)
+  );
+  if (!byTask.length) return undefined;
+  return [
+    ["Task", "Tokens", "Cost"],
+    byTask.map(([task, u]) => [
+      task,
+      String(u.input_tokens + u.output_tokens),
+      u.cost !== undefined ? formatUsd(u.cost) : "–",
+    ]),
+  ];
+}
+
+// Percentiles over uncached calls; TTFT only for streamed runs
+function latencyTable(run: RunOutput): [string[], string[][]] | undefined {
+  const models = Object.entries(run.summary.byModel).filter(
+    ([, s]) => s.latency
+  );
+  if (!models.length) return undefined;
+  const streamed = models.some(([, s]) => s.latency!.ttftMs);
+  const rated = models.some(([, s]) => s.latency!.tokensPerSec);
+  const cells = (p: Percentiles | undefined, digits: number) =>
+    p ? [p.p50, p.p90, p.p99].map((v) => v.toFixed(digits)) : ["–", "–", "–"];
+  return [
+    [
+      "Model",
+      "Calls",
+      "p50 ms",
+      "p90 ms",
+      "p99 ms",
+      ...(streamed ? ["TTFT p50", "TTFT p90", "TTFT p99"] : []),
+      ...(rated ? ["tok/s p50", "tok/s p90", "tok/s p99"] : []),
+      "Retries",
+    ],
+    models.map(([model, s]) => {
+      const l = s.latency!;
+      return [
+        model,
+        String(l.calls),
+        ...cells(l.latencyMs, 0),
+        ...(streamed ? cells(l.ttftMs, 0) : []),
+        ...(rated ? cells(l.tokensPerSec, 1) : []),
+        String(l.retries),
+      ];
+    }),
+  ];
+}
+
+// Model rows; picks per letter with the share of answers there in brackets
+function mcqTable(run: RunOutput): [string[], string[][]] | undefined {
+  const models = Object.entries(run.summary.byModel).filter(([, s]) => s.mcq);
+  if (!models.length) return undefined;
+  return [
+    ["Model", "Items", "Consistency", "Unparsed", "Position bias", "Picks"],
+    models.map(([model, s]) => {
+      const m = s.mcq!;
+      return [
+        model,
+        String(m.items),
+        m.consistency === undefined ? "–" : formatPct(m.consistency),
+        formatPct(m.unparsed),
+        formatPct(m.positionBias),
+        Object.entries(m.positions)
+          .map(
+            ([l, p]) =>
+              `${l} ${Math.round(p.chosen * 100)}% (${Math.round(
+                p.correct * 100
+              )}%)`
+          )
+          .join(" · "),
+      ];
+    }),
+  ];
+}
+
+// Model rows × template columns, plus the best-minus-worst spread
+function templateTable(run: RunOutput): [string[], string[][]] | undefined {
+  const byTemplate = run.summary.byTemplate;
+  if (!byTemplate || !run.templates?.length) return undefined;
+  const names = run.templates;
+  const langOf = (name: string) =>
+    Object.values(byTemplate).find((t) => t[name]?.lang)?.[name]?.lang;
+  return [
+    [
+      "Model",
+      ...names.map((n) => (langOf(n) ? `${n} (${langOf(n)})` : n)),
+      "Spread",
+    ],
+    Object.entries(byTemplate).map(([model, t]) => {
+      const scores = names
+        .map((n) => t[n]?.avgScore)
+        .filter((v): v is number => v !== undefined);
+      return [
+        model,
+        ...names.map((n) => {
+          const s = t[n];
+          return s ? `${formatPct(s.avgScore)} ${formatInterval(s.ci95)}` : "–";
+        }),
+        scores.length > 1
+          ? formatPoints(Math.max(...scores) - Math.min(...scores))
+          : "–",
+      ];
+    }),
+  ];
+}
+
+// Model rows × language columns; with two languages, the second minus the first
+function langTable(run: RunOutput): [string[], string[][]] | undefined {
+  const byLang = run.summary.byLang;
+  if (!byLang) return undefined;
+  const langs = [
+    ...new Set(Object.values(byLang).flatMap((l) => Object.keys(l))),
+  ].sort();
+  if (langs.length < 2) return undefined;
+  const [a, b] = langs as [string, string];
+  const withDelta = langs.length === 2;
+  return [
+    ["Model", ...langs, ...(withDelta ? [`Δ (${b} − ${a})`] : [])],
+    Object.entries(byLang).map(([model, l]) => [
+      model,
+      ...langs.map((lang) => (l[lang] ? formatPct(l[lang]!.avgScore) : "–")),
+      ...(withDelta
+        ? [
+            l[a] && l[b]
+              ? formatPoints(l[b]!.avgScore - l[a]!.avgScore, true)
+              : "–",
+          ]
+        : []),
+    ]),
+  ];
+}
+
+// Difference of two rates in percentage points, e.g. "+4.2pp"
+function formatPoints(v: number, signed = false): string {
+  const sign = signed && v > 0 ? "+" : "";
+  return `${sign}${(v * 100).toFixed(1)}pp`;
+}
+
+function indent(block: string): string {
+  return block
+    .split("\n")
+    .map((l) => `  ${l}`)
+    .join("\n");
+}
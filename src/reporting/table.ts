@@ -0,0 +1,55 @@
+// Plain-text table for the terminal; cells may contain ANSI colours
+export function renderTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) =>
+    Math.max(visibleLength(h), ...rows.map((r) => visibleLength(r[i] ?? "")))
+  );
+  const numeric = numericColumns(headers, rows);
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) => {
+        const pad = " ".repeat((widths[i] ?? 0) - visibleLength(c));
+        return numeric[i] ? pad + c : c + pad;
+      })
+      .join("  ")
+      .trimEnd();
+  return [
+    line(headers),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...rows.map((r) => line(r)),
+  ].join("\n");
+}
+
+export function renderMarkdownTable(
+  headers: string[],
+  rows: string[][]
+): string {
+  const esc = (c: string) => c.replace(/\|/g, "\\|");
+  const numeric = numericColumns(headers, rows);
+  return [
+    `| ${headers.map(esc).join(" | ")} |`,
+    `| ${headers.map((_, i) => (numeric[i] ? "---:" : "---")).join(" | ")} |`,
+    ...rows.map((r) => `| ${r.map(esc).join(" | ")} |`),
+  ].join("\n");
+}
+
+// Columns whose cells are all numbers (optionally $, %, pp, a * marker or a
+// trailing "(lo–hi%)" interval) align right
+function numericColumns(headers: string[], rows: string[][]): boolean[] {
+  return headers.map(
+    (_, i) =>
+      rows.length > 0 &&
+      rows.every((r) =>
+        /^[-+]?\$?\d[\d.,]*(%|pp)?\*?( \([\d.]+–[\d.]+%\))?$|^[-–]$/.test(
+          stripAnsi(r[i] ?? "").trim()
+        )
+      )
+  );
+}
+
+function visibleLength(s: string): number {
+  return stripAnsi(s).length;
+}
+
+function stripAnsi(s: string): string {
+  return s.replace(/\x1b\[[0-9;]*m/g, "");
+}
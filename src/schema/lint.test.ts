@@ -0,0 +1,129 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { lintSuite } from "./lint";
+
+const dir = mkdtempSync(join(tmpdir(), "lint-test-"));
+let n = 0;
+
+// Writes a suite file (or manifest) and returns its path
+function write(json: unknown, name = `suite-${++n}.json`): string {
+  const file = join(dir, name);
+  writeFileSync(file, JSON.stringify(json, null, 2) + "\n", "utf8");
+  return file;
+}
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const exact = (id: string, expected: unknown, evalCfg = {}) => ({
+  id,
+  task: "vocab",
+  prompt: "Translate",
+  expected,
+  eval: { type: "exact", ...evalCfg },
+});
+
+describe("lintSuite", () => {
+  test("reports schema errors and duplicate ids", () => {
+    const file = write([
+      exact("a", "whare"),
+      exact("a", "kāinga"),
+      { id: "b", prompt: "No task or eval" },
+    ]);
+    const rules = lintSuite([file]).issues.map((i) => i.rule);
+    expect(rules).toContain("duplicate-id");
+    expect(rules).toContain("schema");
+  });
+
+  test("flags typos in eval and normalize keys with a suggestion", () => {
+    const file = write([
+      exact("a", "whare", { normalise: {}, normalize: { macron: false } }),
+    ]);
+    const messages = lintSuite([file]).issues.map((i) => i.message);
+    expect(messages).toContain(
+      '"normalise" is not a exact option (did you mean "normalize"?); it is ignored'
+    );
+    expect(messages).toContain(
+      'Unknown normalize option "macron" (did you mean "macrons"?); it is ignored'
+    );
+  });
+
+  test("flags expected answers that normalize to nothing", () => {
+    const file = write([exact("a", "42")]);
+    expect(lintSuite([file]).issues).toMatchObject([
+      {
+        rule: "unmatchable-expected",
+        severity: "error",
+        path: [0, "expected"],
+      },
+    ]);
+  });
+
+  test("--fix removes redundant variants and keeps the file's layout", () => {
+    const file = write([exact("a", ["Kia ora", "kia ora!", "Tēnā koe"])]);
+    const report = lintSuite([file], { fix: true });
+    expect(report).toMatchObject({ fixed: 1, warnings: 0, errors: 0 });
+    expect(report.issues[0]).toMatchObject({
+      rule: "redundant-variant",
+      fixed: true,
+    });
+    const fixed = JSON.parse(readFileSync(file, "utf8"));
+    expect(fixed[0].expected).toEqual(["Kia ora", "Tēnā koe"]);
+    expect(readFileSync(file, "utf8")).toStartWith("[\n  {\n");
+    // Nothing left to fix
+    expect(lintSuite([file], { fix: true }).fixed).toBe(0);
+  });
+
+  test("without --fix only reports what could be fixed", () => {
+    const file = write([exact("a", ["whare", "whare"])]);
+    const before = readFileSync(file, "utf8");
+    const report = lintSuite([file]);
+    expect(report.issues).toMatchObject([
+      { rule: "redundant-variant", fixable: true },
+    ]);
+    expect(report.warnings).toBe(1);
+    expect(readFileSync(file, "utf8")).toBe(before);
+  });
+
+  test("judges fixes with the manifest's eval defaults", () => {
+    const part = write(
+      [exact("a", ["kia-ora", "kia ora", "kia ora"])],
+      "part.json"
+    );
+    const manifest = write({
+      name: "m",
+      version: "1",
+      include: ["part.json"],
+      eval: { normalize: { punctuation: "keep" } },
+    });
+    const report = lintSuite([manifest], { fix: true });
+    expect(report.fixed).toBe(1);
+    // With punctuation kept, the hyphenated spelling is its own answer
+    expect(JSON.parse(readFileSync(part, "utf8"))[0].expected).toEqual([
+      "kia-ora",
+      "kia ora",
+    ]);
+  });
+
+  test("does not fix under a manifest that fails to load", () => {
+    // The duplicate id stops the suite from loading
+    const part = write([exact("b", ["whare", "whare"])], "dup-1.json");
+    write([exact("b", "kāinga")], "dup-2.json");
+    const manifest = write({
+      name: "m",
+      version: "1",
+      include: ["dup-1.json", "dup-2.json"],
+    });
+    const before = readFileSync(part, "utf8");
+    const report = lintSuite([manifest], { fix: true });
+    expect(report.fixed).toBe(0);
+    expect(report.issues.map((i) => i.rule)).toEqual([
+      "redundant-variant",
+      "duplicate-id",
+    ]);
+    expect(readFileSync(part, "utf8")).toBe(before);
+  });
+});
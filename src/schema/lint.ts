@@ -0,0 +1,544 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { relative } from "node:path";
+import chalk from "chalk";
+import type { z } from "zod";
+import type { TestCase } from "../core/runner";
+import { ExactEvalSchema } from "../eval/strategies/exact";
+import { RegexEvalSchema } from "../eval/strategies/regex";
+import { DistanceEvalSchema, levenshtein } from "../eval/strategies/distance";
+import { ChrfEvalSchema } from "../eval/strategies/chrf";
+import { LLMJudgeEvalSchema } from "../eval/strategies/judge";
+import { McqEvalSchema } from "../eval/strategies/mcq";
+import { NormalizeSchema, normalizeText } from "../eval/normalize";
+import { stableStringify } from "../core/hash";
+import {
+  isSuiteManifest,
+  listSuiteFiles,
+  loadSuite,
+  resolveSuiteFiles,
+  TestSchema,
+} from "./test";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintIssue = {
+  rule: string;
+  severity: LintSeverity;
+  file: string;
+  testId?: string;
+  path: (string | number)[];
+  message: string;
+  fixable?: boolean;
+  fixed?: boolean;
+};
+
+export type LintReport = {
+  files: string[];
+  issues: LintIssue[];
+  errors: number;
+  warnings: number;
+  fixed: number;
+};
+
+type Finding = {
+  path: (string | number)[];
+  message: string;
+  // Safe in-place repair of the raw test object
+  fix?: (test: Record<string, unknown>) => void;
+};
+
+type LintRule = {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(test: TestCase): Finding[];
+};
+
+const EVAL_SCHEMAS: Record<TestCase["eval"]["type"], z.AnyZodObject> = {
+  exact: ExactEvalSchema,
+  "llm-judge": LLMJudgeEvalSchema,
+  regex: RegexEvalSchema,
+  distance: DistanceEvalSchema,
+  chrf: ChrfEvalSchema,
+  mcq: McqEvalSchema,
+};
+
+// Evaluators that score against `expected`
+const NEEDS_EXPECTED = new Set(["exact", "distance", "chrf"]);
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "missing-expected",
+    severity: "error",
+    description: "exact, distance and chrf tests need a non-empty `expected`",
+    check(test) {
+      if (!NEEDS_EXPECTED.has(test.eval.type)) return [];
+      const variants = rawVariants(test);
+      if (variants.some((v) => v.trim())) return [];
+      return [
+        {
+          path: ["expected"],
+          message: `${test.eval.type} test has no expected answer, so it can only score 0`,
+        },
+      ];
+    },
+  },
+  {
+    id: "unknown-normalize-key",
+    severity: "error",
+    description:
+      "`eval.normalize` keys the normalizer does not know are ignored",
+    check(test) {
+      const normalize = (test.eval as Record<string, unknown>).normalize;
+      if (!normalize || typeof normalize !== "object") return [];
+      return unknownKeys(
+        normalize as Record<string, unknown>,
+        Object.keys(NormalizeSchema.shape)
+      ).map(({ key, suggestion }) => ({
+        path: ["eval", "normalize", key],
+        message: `Unknown normalize option "${key}"${
+          suggestion ? ` (did you mean "${suggestion}"?)` : ""
+        }; it is ignored`,
+      }));
+    },
+  },
+  {
+    id: "unknown-eval-key",
+    severity: "warning",
+    description: "`eval` keys the evaluator does not read are ignored",
+    check(test) {
+      const schema = EVAL_SCHEMAS[test.eval.type];
+      if (!schema) return [];
+      return unknownKeys(
+        test.eval as Record<string, unknown>,
+        Object.keys(schema.shape)
+      ).map(({ key, suggestion }) => ({
+        path: ["eval", key],
+        message: `"${key}" is not a ${test.eval.type} option${
+          suggestion ? ` (did you mean "${suggestion}"?)` : ""
+        }; it is ignored`,
+      }));
+    },
+  },
+  {
+    id: "unmatchable-expected",
+    severity: "error",
+    description: "expected variants that normalize to an empty string",
+    check(test) {
+      const norm = comparisonNormalizer(test);
+      if (!norm || !["exact", "distance"].includes(test.eval.type)) return [];
+      return rawVariants(test).flatMap((v, i) =>
+        v.trim() && !norm(v)
+          ? [
+              {
+                path: variantPath(test, i),
+                message: `"${v}" normalizes to an empty string (punctuation stripping drops digits and symbols), so any answer without letters matches it`,
+              },
+            ]
+          : []
+      );
+    },
+  },
+  {
+    id: "punctuation-in-expected",
+    severity: "warning",
+    description:
+      "expected variants changed inside by punctuation stripping (hyphens, apostrophes, digits)",
+    check(test) {
+      if (!["exact", "distance"].includes(test.eval.type)) return [];
+      const normalize = (test.eval as { normalize?: { punctuation?: string } })
+        .normalize;
+      if ((normalize?.punctuation ?? "strip") !== "strip") return [];
+      const variants = rawVariants(test);
+      return variants.flatMap((v, i) => {
+        // Leading/trailing punctuation is the harmless case stripping is for
+        const inner = v.trim().replace(/^[^\p{L}]+|[^\p{L}]+$/gu, "");
+        if (!/[^\p{L}\s]/u.test(inner) || !/\p{L}/u.test(inner)) return [];
+        const norm = comparisonNormalizer(test)!;
+        // Fine when the spaced spelling is accepted too
+        const spaced = norm(v.replace(/(\p{L})[-‐‑–'’]+(?=\p{L})/gu, "$1 "));
+        if (variants.some((other) => norm(other) === spaced)) return [];
+        return [
+          {
+            path: variantPath(test, i),
+            message: `"${v}" is compared as "${norm(
+              v
+            )}" because punctuation is stripped, so spellings with spaces instead of hyphens never match; set normalize.punctuation to "keep" or list those spellings`,
+          },
+        ];
+      });
+    },
+  },
+  {
+    id: "redundant-variant",
+    severity: "warning",
+    description:
+      "expected variants identical to an earlier one after normalization",
+    check(test) {
+      if (!Array.isArray(test.expected)) return [];
+      const norm = comparisonNormalizer(test) ?? nfcTrim;
+      const seen = new Map<string, string>();
+      const findings: Finding[] = [];
+      rawVariants(test).forEach((v, i) => {
+        const key = norm(v);
+        const first = seen.get(key);
+        if (first === undefined) {
+          seen.set(key, v);
+          return;
+        }
+        findings.push({
+          path: ["expected", i],
+          message:
+            first === v
+              ? `"${v}" is listed twice`
+              : `"${v}" is the same as "${first}" after normalization`,
+          fix: (raw) => (raw.expected as unknown[]).splice(i, 1),
+        });
+      });
+      return findings;
+    },
+  },
+];
+
+/**
+ * Lints suite files (manifests are expanded to the files they include).
+ * Shape errors and duplicate ids are errors; the per-test rules only run on
+ * tests whose shape is valid, and see each test with the manifest `eval`
+ * defaults it runs under. With `fix`, safe fixes are written back; under a
+ * manifest only when the whole suite loads, so they are judged on the eval
+ * settings each test really runs with.
+ */
+export function lintSuite(
+  paths: string[],
+  opts?: { fix?: boolean }
+): LintReport {
+  const issues: LintIssue[] = [];
+  let files: string[] = [];
+  try {
+    files = listSuiteFiles(paths);
+  } catch (err) {
+    // Bad manifest shape or an include cycle
+    issues.push({
+      rule: "manifest",
+      severity: "error",
+      file: paths.join(", "),
+      path: [],
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  // Tests as `bench run` sees them; undefined when the suite does not load
+  let resolved: Map<string, TestCase> | undefined;
+  try {
+    resolved = new Map(loadSuite(paths).tests.map((t) => [t.id, t]));
+  } catch {
+    // Reported below as schema, duplicate-id or manifest issues
+  }
+  const canFix = resolved !== undefined || !usesManifest(paths);
+
+  const seen = new Map<string, string>();
+  let fixed = 0;
+  for (const file of files) {
+    const text = readFileSync(file, "utf8");
+    const json = JSON.parse(text) as unknown;
+    if (!Array.isArray(json)) {
+      issues.push({
+        rule: "schema",
+        severity: "error",
+        file,
+        path: [],
+        message: "A suite file must be an array of tests",
+      });
+      continue;
+    }
+    const changed: number[] = [];
+    json.forEach((raw: Record<string, unknown>, index) => {
+      const testId = typeof raw?.id === "string" ? raw.id : undefined;
+      const res = TestSchema.safeParse(raw);
+      if (!res.success) {
+        for (const issue of res.error.issues) {
+          issues.push({
+            rule: "schema",
+            severity: "error",
+            file,
+            testId,
+            path: [index, ...issue.path],
+            message: issue.message,
+          });
+        }
+        return;
+      }
+      const test = raw as unknown as TestCase;
+      const other = seen.get(test.id);
+      if (other !== undefined) {
+        issues.push({
+          rule: "duplicate-id",
+          severity: "error",
+          file,
+          testId: test.id,
+          path: [index, "id"],
+          message: `Test id "${test.id}" is already used${
+            other === file ? " in this file" : ` in ${other}`
+          }`,
+        });
+      } else {
+        seen.set(test.id, file);
+      }
+
+      // Tests a manifest excludes are checked as the file has them
+      const effective = resolved?.get(test.id) ?? test;
+      const fixes: Finding["fix"][] = [];
+      for (const rule of LINT_RULES) {
+        for (const f of rule.check(effective)) {
+          const willFix = Boolean(opts?.fix && f.fix && canFix);
+          if (willFix) fixes.push(f.fix);
+          issues.push({
+            rule: rule.id,
+            severity: rule.severity,
+            file,
+            testId: test.id,
+            path: [index, ...f.path],
+            message: f.message,
+            fixable: Boolean(f.fix),
+            fixed: willFix || undefined,
+          });
+        }
+      }
+      // Later findings point at later array indexes; undo from the end
+      for (const fix of fixes.reverse()) fix!(raw);
+      if (fixes.length) {
+        changed.push(index);
+        fixed += fixes.length;
+      }
+    });
+    if (changed.length) writeFixes(file, text, json, changed);
+  }
+
+  return {
+    files,
+    issues,
+    errors: issues.filter((i) => i.severity === "error" && !i.fixed).length,
+    warnings: issues.filter((i) => i.severity === "warning" && !i.fixed).length,
+    fixed,
+  };
+}
+
+function usesManifest(paths: string[]): boolean {
+  try {
+    return resolveSuiteFiles(paths).some((f) =>
+      isSuiteManifest(JSON.parse(readFileSync(f, "utf8")))
+    );
+  } catch {
+    return true;
+  }
+}
+
+function rawVariants(test: TestCase): string[] {
+  if (test.expected === undefined || test.expected === null) return [];
+  return Array.isArray(test.expected)
+    ? (test.expected as unknown[]).map(String)
+    : [String(test.expected)];
+}
+
+function variantPath(test: TestCase, i: number): (string | number)[] {
+  return Array.isArray(test.expected) ? ["expected", i] : ["expected"];
+}
+
+// How the evaluator normalizes expected answers before comparing
+function comparisonNormalizer(
+  test: TestCase
+): ((s: string) => string) | undefined {
+  const cfg = test.eval as { normalize?: z.infer<typeof NormalizeSchema> };
+  switch (test.eval.type) {
+    case "exact":
+      return (s) => normalizeText(s, cfg.normalize ?? {});
+    case "distance":
+      return (s) => normalizeText(s, cfg.normalize);
+    case "chrf":
+      return cfg.normalize ? (s) => normalizeText(s, cfg.normalize) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function nfcTrim(s: string): string {
+  return s.normalize("NFC").trim();
+}
+
+function unknownKeys(
+  obj: Record<string, unknown>,
+  known: string[]
+): { key: string; suggestion?: string }[] {
+  return Object.keys(obj)
+    .filter((k) => !known.includes(k))
+    .map((key) => {
+      const best = known
+        .map((k) => ({
+          k,
+          d: levenshtein(
+            Array.from(key.toLowerCase()),
+            Array.from(k.toLowerCase())
+          ),
+        }))
+        .sort((a, b) => a.d - b.d)[0];
+      return { key, suggestion: best && best.d <= 2 ? best.k : undefined };
+    });
+}
+
+/**
+ * Fixes only touch `expected`, so those arrays are rewritten in place and
+ * the rest of the file keeps its formatting. Falls back to re-serializing
+ * the whole file if the splice does not round-trip.
+ */
+function writeFixes(
+  file: string,
+  original: string,
+  json: Record<string, unknown>[],
+  changed: number[]
+): void {
+  let out: string | undefined = original;
+  const elements = arrayElementSpans(original, original.indexOf("["));
+  for (const index of [...changed].sort((a, b) => b - a)) {
+    const el = elements[index];
+    const span: [number, number] | undefined =
+      el && objectValueSpan(out!, el[0], "expected");
+    if (!span) {
+      out = undefined;
+      break;
+    }
+    const value = json[index]!.expected;
+    out =
+      out!.slice(0, span[0]) +
+      formatArrayLike(out!.slice(span[0], span[1]), out!, span[0], value) +
+      out!.slice(span[1]);
+  }
+  if (
+    out === undefined ||
+    stableStringify(JSON.parse(out)) !== stableStringify(json)
+  ) {
+    const indent = original.match(/^[[{]\s*\n([ \t]+)/)?.[1] ?? 2;
+    const trailing = original.endsWith("\n") ? "\n" : "";
+    out = JSON.stringify(json, null, indent) + trailing;
+  }
+  writeFileSync(file, out, "utf8");
+}
+
+// Single-line arrays stay on one line; multi-line ones keep their indents
+function formatArrayLike(
+  previous: string,
+  text: string,
+  start: number,
+  value: unknown
+): string {
+  if (!Array.isArray(value) || !previous.includes("\n")) {
+    return Array.isArray(value)
+      ? `[${value.map((v) => JSON.stringify(v)).join(", ")}]`
+      : JSON.stringify(value);
+  }
+  const lineStart = text.lastIndexOf("\n", start) + 1;
+  const outer = text.slice(lineStart).match(/^[ \t]*/)![0];
+  const inner = previous.match(/\n([ \t]*)\S/)?.[1] ?? `${outer}  `;
+  return `[\n${value
+    .map((v) => inner + JSON.stringify(v))
+    .join(",\n")}\n${outer}]`;
+}
+
+// [start, end) of each element of the array opening at `open`
+function arrayElementSpans(text: string, open: number): [number, number][] {
+  const spans: [number, number][] = [];
+  let i = skipSpace(text, open + 1);
+  while (i < text.length && text[i] !== "]") {
+    const end = valueEnd(text, i);
+    spans.push([i, end]);
+    i = skipSpace(text, end);
+    if (text[i] === ",") i = skipSpace(text, i + 1);
+  }
+  return spans;
+}
+
+// [start, end) of `key`'s value in the object opening at `open`
+function objectValueSpan(
+  text: string,
+  open: number,
+  key: string
+): [number, number] | undefined {
+  let i = skipSpace(text, open + 1);
+  while (i < text.length && text[i] === '"') {
+    const keyEnd = valueEnd(text, i);
+    const name = JSON.parse(text.slice(i, keyEnd)) as string;
+    i = skipSpace(text, skipSpace(text, keyEnd) + 1); // past ':'
+    const end = valueEnd(text, i);
+    if (name === key) return [i, end];
+    i = skipSpace(text, end);
+    if (text[i] === ",") i = skipSpace(text, i + 1);
+  }
+  return undefined;
+}
+
+function skipSpace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i]!)) i++;
+  return i;
+}
+
+// End of the JSON value starting at `i`
+function valueEnd(text: string, i: number): number {
+  if (text[i] === '"') {
+    let j = i + 1;
+    while (j < text.length && text[j] !== '"') j += text[j] === "\\" ? 2 : 1;
+    return j + 1;
+  }
+  if (text[i] === "[" || text[i] === "{") {
+    let depth = 0;
+    for (let j = i; j < text.length; j++) {
+      const c = text[j];
+      if (c === '"') {
+        j = valueEnd(text, j) - 1;
+      } else if (c === "[" || c === "{") {
+        depth++;
+      } else if (c === "]" || c === "}") {
+        depth--;
+        if (depth === 0) return j + 1;
+      }
+    }
+    return text.length;
+  }
+  let j = i;
+  while (j < text.length && !/[\s,\]}]/.test(text[j]!)) j++;
+  return j;
+}
+
+export function printLintReport(report: LintReport): void {
+  const byFile = new Map<string, LintIssue[]>();
+  for (const issue of report.issues) {
+    if (!byFile.has(issue.file)) byFile.set(issue.file, []);
+    byFile.get(issue.file)!.push(issue);
+  }
+  for (const [file, list] of byFile) {
+    console.log(chalk.underline(relative(process.cwd(), file) || file));
+    for (const i of list) {
+      const severity = i.fixed
+        ? chalk.green("fixed  ")
+        : i.severity === "error"
+        ? chalk.red("error  ")
+        : chalk.yellow("warning");
+      const where = [i.testId, i.path.join(".")].filter(Boolean).join(" ");
+      console.log(
+        `  ${severity}  ${chalk.gray(where)}  ${i.message}  ${chalk.gray(
+          i.rule
+        )}`
+      );
+    }
+  }
+  const fixable = report.issues.filter((i) => i.fixable && !i.fixed).length;
+  const summary = `${report.files.length} file(s): ${report.errors} error(s), ${
+    report.warnings
+  } warning(s)${report.fixed ? `, ${report.fixed} fixed` : ""}`;
+  console.log(
+    report.errors
+      ? chalk.red(summary)
+      : report.warnings
+      ? chalk.yellow(summary)
+      : chalk.green(summary)
+  );
+  if (fixable) console.log(chalk.gray(`${fixable} fixable with --fix`));
+}
@@ -0,0 +1,95 @@
+import type { TestCase } from "../core/runner";
+import { mulberry32 } from "../scoring/stats";
+
+/** Filters applied to a loaded suite; recorded in run.json and report.json. */
+export type SuiteSelection = {
+  tasks?: string[];
+  // Globs over test ids (`*`, `?`); a test matching any is kept
+  ids?: string[];
+  // metadata key -> required value; every entry must match
+  where?: Record<string, string>;
+  // Keep a seeded random subset of this size after filtering
+  sample?: number;
+  seed?: number;
+};
+
+// "level=C2" -> { level: "C2" }
+export function parseWhere(exprs: string[]): Record<string, string> {
+  const where: Record<string, string> = {};
+  for (const expr of exprs) {
+    const eq = expr.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`Invalid --where "${expr}": expected key=value`);
+    }
+    where[expr.slice(0, eq).trim()] = expr.slice(eq + 1).trim();
+  }
+  return where;
+}
+
+/**
+ * Tests matching every filter, in suite order. Metadata values are compared
+ * as strings; an array value matches when any element does.
+ */
+export function selectTests(
+  tests: TestCase[],
+  selection: SuiteSelection
+): TestCase[] {
+  const idPatterns = selection.ids?.map(globToRegExp);
+  let selected = tests.filter((t) => {
+    if (selection.tasks?.length && !selection.tasks.includes(t.task)) {
+      return false;
+    }
+    if (idPatterns?.length && !idPatterns.some((re) => re.test(t.id))) {
+      return false;
+    }
+    for (const [key, value] of Object.entries(selection.where ?? {})) {
+      const actual = t.metadata?.[key];
+      const values = Array.isArray(actual) ? actual : [actual];
+      if (!values.some((v) => v !== undefined && String(v) === value)) {
+        return false;
+      }
+    }
+    return true;
+  });
+  if (selection.sample !== undefined && selection.sample < selected.length) {
+    const rand = mulberry32(selection.seed ?? 0);
+    const picked = new Set(
+      selected
+        .map((t) => ({ t, r: rand() }))
+        .sort((a, b) => a.r - b.r)
+        .slice(0, selection.sample)
+        .map((x) => x.t)
+    );
+    selected = selected.filter((t) => picked.has(t));
+  }
+  return selected;
+}
+
+// Compact filter expression for reports, e.g. "task=grammar level=C2 sample=10 seed=7"
+export function describeSelection(selection: SuiteSelection): string {
+  const parts: string[] = [];
+  if (selection.tasks?.length) parts.push(`task=${selection.tasks.join(",")}`);
+  if (selection.ids?.length) parts.push(`id=${selection.ids.join(",")}`);
+  for (const [key, value] of Object.entries(selection.where ?? {})) {
+    parts.push(`${key}=${value}`);
+  }
+  if (selection.sample !== undefined) {
+    parts.push(`sample=${selection.sample}`, `seed=${selection.seed ?? 0}`);
+  }
+  return parts.join(" ");
+}
+
+// `*` and `?` wildcards over the whole string
+export function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .split("")
+    .map((c) =>
+      c === "*"
+        ? ".*"
+        : c === "?"
+        ? "."
+        : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${body}$`);
+}
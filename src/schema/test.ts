@@ -1,15 +1,90 @@
 import { z } from "zod";
-import { readFileSync } from "node:fs";
-
-export const TestSchema = z.object({
-  id: z.string().min(1),
-  task: z.string().min(1),
-  prompt: z.string().min(1),
-  expected: z.any().optional(),
-  eval: z.object({ type: z.enum(["exact", "llm-judge"]) }).passthrough(),
-  metadata: z.record(z.any()).optional(),
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import type { TestCase } from "../core/runner";
+import { sha256, stableStringify } from "../core/hash";
+import { ExactEvalSchema } from "../eval/strategies/exact";
+import { checkRegexPatterns, RegexEvalSchema } from "../eval/strategies/regex";
+import { DistanceEvalSchema } from "../eval/strategies/distance";
+import { ChrfEvalSchema } from "../eval/strategies/chrf";
+import { LLMJudgeEvalSchema } from "../eval/strategies/judge";
+import { checkMcq, McqEvalSchema } from "../eval/strategies/mcq";
+import { globToRegExp } from "./select";
+import { TemplateMapSchema, type TemplateMap } from "../core/templates";
+import { ExtractSchema, type ExtractStep } from "../eval/extract";
+
+// Per-evaluator config lives in the test's `eval` block
+export const EvalSchema = z
+  .discriminatedUnion("type", [
+    ExactEvalSchema,
+    LLMJudgeEvalSchema,
+    RegexEvalSchema,
+    DistanceEvalSchema,
+    ChrfEvalSchema,
+    McqEvalSchema,
+  ])
+  .superRefine((cfg, ctx) => {
+    if (cfg.type === "regex") checkRegexPatterns(cfg, ctx);
+    if (cfg.type === "mcq") checkMcq(cfg, ctx);
+  });
+
+export const ChatMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant"]),
+  content: z.string().min(1),
+});
+
+export const FewShotExampleSchema = z.object({
+  input: z.string().min(1),
+  output: z.string().min(1),
 });
 
+export const TestSchema = z
+  .object({
+    id: z.string().min(1),
+    task: z.string().min(1),
+    // Single user turn; the simple form
+    prompt: z.string().min(1).optional(),
+    // Conversation so far, e.g. a dialogue to continue; `prompt`, if also
+    // set, is appended as the final user turn
+    messages: z.array(ChatMessageSchema).min(1).optional(),
+    // Few-shot user/assistant pairs sent before the conversation
+    examples: z.array(FewShotExampleSchema).optional(),
+    // Replaces the default system prompt
+    system: z.string().min(1).optional(),
+    // Steps that pull the answer out of the response before scoring
+    extract: ExtractSchema.optional(),
+    expected: z.any().optional(),
+    eval: EvalSchema,
+    metadata: z.record(z.any()).optional(),
+  })
+  .superRefine((test, ctx) => {
+    if (test.prompt === undefined && !test.messages) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["prompt"],
+        message: "A test needs `prompt` or `messages`",
+      });
+    }
+    const last = test.messages?.[test.messages.length - 1];
+    if (test.prompt === undefined && last && last.role !== "user") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["messages", test.messages!.length - 1, "role"],
+        message: "The last message must be from the user",
+      });
+    }
+    if (
+      test.system !== undefined &&
+      test.messages?.some((m) => m.role === "system")
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["system"],
+        message: "Set the system prompt in `system` or in `messages`, not both",
+      });
+    }
+  });
+
 export const TestSuiteSchema = z.array(TestSchema).min(1);
 
 export async function validateTestSuiteFile(filePath: string): Promise<{
@@ -18,6 +93,27 @@ export async function validateTestSuiteFile(filePath: string): Promise<{
   errors: { path: (string | number)[]; message: string }[];
 }> {
   const json = JSON.parse(readFileSync(filePath, "utf8")) as unknown;
+  if (isSuiteManifest(json)) {
+    // Resolved as a whole; the first problem found is reported
+    try {
+      return {
+        ok: true,
+        count: loadSuite([filePath]).tests.length,
+        errors: [],
+      };
+    } catch (err) {
+      return {
+        ok: false,
+        count: 0,
+        errors: [
+          {
+            path: [],
+            message: err instanceof Error ? err.message : String(err),
+          },
+        ],
+      };
+    }
+  }
   const res = TestSuiteSchema.safeParse(json);
   if (res.success) {
     return { ok: true, count: res.data.length, errors: [] };
@@ -28,3 +124,293 @@ export async function validateTestSuiteFile(filePath: string): Promise<{
   }));
   return { ok: false, count: 0, errors: zerrs };
 }
+
+// Files named by `paths`; a directory contributes its *.json files
+export function resolveSuiteFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const p of paths) {
+    const abs = resolve(process.cwd(), p);
+    if (!existsSync(abs)) throw new Error(`Suite not found: ${abs}`);
+    if (statSync(abs).isDirectory()) {
+      const entries = readdirSync(abs)
+        .filter((f) => f.endsWith(".json"))
+        .sort()
+        .map((f) => join(abs, f));
+      if (!entries.length) throw new Error(`No .json suites in ${abs}`);
+      files.push(...entries);
+    } else {
+      files.push(abs);
+    }
+  }
+  return [...new Set(files)];
+}
+
+// Merged under each test's `eval` (test values win); cannot change `type`
+const EvalDefaultsSchema = z
+  .record(z.unknown())
+  .refine((e) => !("type" in e), "eval defaults cannot set `type`");
+
+const SuiteGroupSchema = z.object({
+  path: z.string().min(1),
+  // Test id globs dropped from this group only
+  exclude: z.array(z.string().min(1)).optional(),
+  eval: EvalDefaultsSchema.optional(),
+  // Extraction for tests that set none
+  extract: ExtractSchema.optional(),
+});
+
+/**
+ * A suite built from other suite files, directories or manifests. Paths are
+ * relative to the manifest; manifest-level `exclude`/`eval` apply to every
+ * group, group-level ones to that group only.
+ */
+export const SuiteManifestSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  include: z.array(z.union([z.string().min(1), SuiteGroupSchema])).min(1),
+  exclude: z.array(z.string().min(1)).optional(),
+  eval: EvalDefaultsSchema.optional(),
+  extract: ExtractSchema.optional(),
+  // Named prompt templates for `bench run --templates`
+  templates: TemplateMapSchema.optional(),
+});
+
+export type SuiteManifest = z.infer<typeof SuiteManifestSchema>;
+
+export type LoadedSuite = {
+  // Every test file read, manifests resolved
+  files: string[];
+  tests: TestCase[];
+  // Content hash of `tests`, before any run-time filters
+  hash: string;
+  // From the manifest, when a single manifest was loaded
+  name?: string;
+  version?: string;
+  // Prompt templates from every manifest loaded; outer manifests win
+  templates?: TemplateMap;
+};
+
+// A manifest is a JSON object; a plain suite is an array of tests
+export function isSuiteManifest(json: unknown): boolean {
+  return typeof json === "object" && json !== null && !Array.isArray(json);
+}
+
+/**
+ * Loads and validates suite files and manifests, concatenated in order.
+ * Test ids must be unique across the result, since results are keyed by them.
+ */
+export function loadSuite(paths: string[]): LoadedSuite {
+  const files: string[] = [];
+  const entries: SuiteEntry[] = [];
+  const manifests: SuiteManifest[] = [];
+  const templates: TemplateMap = {};
+  for (const file of resolveSuiteFiles(paths)) {
+    const json = readJson(file);
+    if (isSuiteManifest(json)) {
+      const manifest = parseManifest(file, json);
+      manifests.push(manifest);
+      entries.push(
+        ...resolveManifest(file, manifest, [file], files, templates)
+      );
+    } else {
+      entries.push(...readTestFile(file, json));
+      files.push(file);
+    }
+  }
+
+  const seen = new Map<string, string>();
+  for (const { test, file } of entries) {
+    const other = seen.get(test.id);
+    if (other) {
+      throw new Error(
+        `Duplicate test id "${test.id}" in ${other}${
+          other === file ? "" : ` and ${file}`
+        }`
+      );
+    }
+    seen.set(test.id, file);
+  }
+
+  const tests = entries.map((e) => e.test);
+  const manifest = manifests.length === 1 ? manifests[0] : undefined;
+  return {
+    files: [...new Set(files)],
+    tests,
+    hash: hashSuite(tests),
+    name: manifest?.name,
+    version: manifest?.version,
+    templates: Object.keys(templates).length ? templates : undefined,
+  };
+}
+
+/**
+ * Test files behind `paths`, with manifests expanded recursively. Only the
+ * manifests are validated; used by the linter to reach every file.
+ */
+export function listSuiteFiles(
+  paths: string[],
+  stack: string[] = []
+): string[] {
+  const files: string[] = [];
+  for (const file of resolveSuiteFiles(paths)) {
+    const json = readJson(file);
+    if (!isSuiteManifest(json)) {
+      files.push(file);
+      continue;
+    }
+    if (stack.includes(file)) {
+      throw new Error(`Suite manifest cycle: ${[...stack, file].join(" -> ")}`);
+    }
+    const manifest = parseManifest(file, json);
+    files.push(
+      ...listSuiteFiles(
+        manifest.include.map((item) =>
+          resolve(dirname(file), typeof item === "string" ? item : item.path)
+        ),
+        [...stack, file]
+      )
+    );
+  }
+  return [...new Set(files)];
+}
+
+type SuiteEntry = { test: TestCase; file: string };
+
+function resolveManifest(
+  manifestPath: string,
+  manifest: SuiteManifest,
+  stack: string[],
+  files: string[],
+  templates: TemplateMap
+): SuiteEntry[] {
+  const base = dirname(manifestPath);
+  const entries: SuiteEntry[] = [];
+  for (const [name, template] of Object.entries(manifest.templates ?? {})) {
+    templates[name] ??= template;
+  }
+  for (const item of manifest.include) {
+    const group = typeof item === "string" ? { path: item } : item;
+    let groupEntries: SuiteEntry[] = [];
+    for (const file of resolveSuiteFiles([resolve(base, group.path)])) {
+      const json = readJson(file);
+      if (isSuiteManifest(json)) {
+        if (stack.includes(file)) {
+          throw new Error(
+            `Suite manifest cycle: ${[...stack, file].join(" -> ")}`
+          );
+        }
+        groupEntries.push(
+          ...resolveManifest(
+            file,
+            parseManifest(file, json),
+            [...stack, file],
+            files,
+            templates
+          )
+        );
+      } else {
+        groupEntries.push(...readTestFile(file, json));
+        files.push(file);
+      }
+    }
+    groupEntries = applyGroup(groupEntries, group, manifestPath);
+    entries.push(...groupEntries);
+  }
+  return applyGroup(entries, manifest, manifestPath);
+}
+
+function applyGroup(
+  entries: SuiteEntry[],
+  group: {
+    exclude?: string[];
+    eval?: Record<string, unknown>;
+    extract?: ExtractStep[];
+  },
+  manifestPath: string
+): SuiteEntry[] {
+  const excluded = (group.exclude ?? []).map(globToRegExp);
+  return entries
+    .filter(({ test }) => !excluded.some((re) => re.test(test.id)))
+    .map(({ test, file }) => {
+      if (group.extract && test.extract === undefined) {
+        test = { ...test, extract: group.extract };
+      }
+      if (!group.eval) return { test, file };
+      const merged = {
+        ...test,
+        eval: mergeEvalDefaults(group.eval, test.eval),
+      };
+      const res = TestSchema.safeParse(merged);
+      if (!res.success) {
+        const issue = res.error.issues[0];
+        throw new Error(
+          `Eval defaults in ${manifestPath} make test "${
+            test.id
+          }" invalid: ${issue?.path.join(".")} ${issue?.message}`
+        );
+      }
+      return { test: merged as TestCase, file };
+    });
+}
+
+// One level deep, so a default `normalize` block merges key by key
+function mergeEvalDefaults(
+  defaults: Record<string, unknown>,
+  evalCfg: TestCase["eval"]
+): TestCase["eval"] {
+  const merged: Record<string, unknown> = { ...defaults, ...evalCfg };
+  for (const [key, value] of Object.entries(defaults)) {
+    const own = (evalCfg as Record<string, unknown>)[key];
+    if (isPlainObject(value) && isPlainObject(own)) {
+      merged[key] = { ...value, ...own };
+    }
+  }
+  return merged as TestCase["eval"];
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `Cannot read ${file}: ${err instanceof Error ? err.message : err}`
+    );
+  }
+}
+
+function parseManifest(file: string, json: unknown): SuiteManifest {
+  const res = SuiteManifestSchema.safeParse(json);
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new Error(
+      `Invalid suite manifest ${file}: ${issue?.path.join(".")} ${
+        issue?.message
+      }`
+    );
+  }
+  return res.data;
+}
+
+function readTestFile(file: string, json: unknown): SuiteEntry[] {
+  const res = TestSuiteSchema.safeParse(json);
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new Error(
+      `Invalid test suite ${file}: ${issue?.path.join(".")} ${issue?.message}`
+    );
+  }
+  // Raw entries, not the parsed ones (parsing drops unknown keys): the suite
+  // hash covers each test as written, with manifest excludes and defaults
+  // applied
+  return (json as TestCase[]).map((test) => ({ test, file }));
+}
+
+// Content hash of a resolved suite; formatting and key order do not matter
+export function hashSuite(tests: unknown[]): string {
+  return sha256(stableStringify(tests));
+}
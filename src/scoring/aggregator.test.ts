@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import type { TestResult } from "../core/runner";
+import { aggregateScores, DEFAULT_SCORING_CONFIG } from "./aggregator";
+
+const result = (task: string, score: number, outcome?: string): TestResult => ({
+  testId: `${task}-${score}`,
+  task,
+  model: "m",
+  provider_id: "p/m",
+  prompt: "",
+  response: "",
+  score,
+  outcome,
+  latencyMs: 0,
+});
+
+describe("aggregateScores", () => {
+  test("weights categories by task means, not test counts", () => {
+    const res = aggregateScores(
+      [
+        result("translation", 1),
+        result("translation", 1),
+        result("translation", 1),
+        result("grammar", 0),
+      ],
+      DEFAULT_SCORING_CONFIG
+    );
+    // 0.3 * 1 + 0.25 * 0, renormalized over the two categories present
+    expect(res.score).toBeCloseTo((100 * 0.3) / 0.55);
+    expect(res.byTask.translation).toEqual({
+      tests: 3,
+      avgScore: 1,
+      category: "translation",
+    });
+  });
+
+  test("leaves out results whose judge or evaluator failed", () => {
+    const res = aggregateScores(
+      [
+        result("translation", 1),
+        result("translation", 0, "judge_error"),
+        result("grammar", 0, "eval_error"),
+      ],
+      DEFAULT_SCORING_CONFIG
+    );
+    expect(res.score).toBe(100);
+    expect(res.byTask).toEqual({
+      translation: { tests: 1, avgScore: 1, category: "translation" },
+    });
+  });
+});
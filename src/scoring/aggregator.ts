@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { existsSync, readFileSync } from "node:fs";
+import type { TestResult } from "../core/runner";
+
+export const ScoringConfigSchema = z.object({
+  // Category name -> weight and the test `task` values it covers
+  categories: z.record(
+    z.object({
+      weight: z.number().nonnegative(),
+      tasks: z.array(z.string().min(1)),
+    })
+  ),
+  // Category for tasks not listed anywhere; unlisted tasks are unweighted
+  // (reported, but left out of the 0–100 score) when omitted
+  defaultCategory: z.string().optional(),
+});
+
+export type ScoringConfig = z.infer<typeof ScoringConfigSchema>;
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  categories: {
+    translation: { weight: 0.3, tasks: ["translation", "comprehension"] },
+    grammar: {
+      weight: 0.25,
+      tasks: ["grammar", "morphology", "syntax", "orthography", "numbers"],
+    },
+    vocabulary: { weight: 0.2, tasks: ["vocabulary", "idiom"] },
+    cultural: { weight: 0.15, tasks: ["cultural", "register"] },
+    names: { weight: 0.1, tasks: ["names", "macrons", "placenames"] },
+  },
+};
+
+export const UNCATEGORIZED = "uncategorized";
+
+export type TaskScore = {
+  tests: number;
+  avgScore: number;
+  category: string;
+};
+
+export type CategoryScore = {
+  weight: number;
+  tests: number;
+  avgScore: number;
+  tasks: string[];
+};
+
+export type ScoreBreakdown = {
+  // Weighted 0–100 over the categories present in the results
+  score: number;
+  byTask: Record<string, TaskScore>;
+  byCategory: Record<string, CategoryScore>;
+};
+
+export function loadScoringConfig(filePath: string): ScoringConfig {
+  if (!existsSync(filePath)) return DEFAULT_SCORING_CONFIG;
+  const json = JSON.parse(readFileSync(filePath, "utf8")) as unknown;
+  const res = ScoringConfigSchema.safeParse(json);
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new Error(
+      `Invalid scoring config ${filePath}: ${issue?.path.join(".")} ${
+        issue?.message
+      }`
+    );
+  }
+  return res.data;
+}
+
+// The model answered but its judge or evaluator threw, so the result has no
+// real score; it is left out of every average rather than counted as 0
+export function scoringFailed(r: { outcome?: string }): boolean {
+  return r.outcome === "judge_error" || r.outcome === "eval_error";
+}
+
+export function categoryOf(task: string, config: ScoringConfig): string {
+  for (const [name, c] of Object.entries(config.categories)) {
+    if (c.tasks.includes(task)) return name;
+  }
+  return config.defaultCategory ?? UNCATEGORIZED;
+}
+
+/**
+ * Groups results by task, then tasks into categories. Each task counts once
+ * in its category (mean of task means), and each category contributes its
+ * weight, so a suite heavy in one task cannot outweigh the rest. Weights are
+ * renormalized over the categories that have results. Results whose
+ * scoring failed are left out.
+ */
+export function aggregateScores(
+  results: TestResult[],
+  config: ScoringConfig
+): ScoreBreakdown {
+  const tasks: Record<string, { tests: number; sum: number }> = {};
+  for (const r of results) {
+    if (scoringFailed(r)) continue;
+    const task = r.task ?? "unknown";
+    tasks[task] ??= { tests: 0, sum: 0 };
+    tasks[task].tests += 1;
+    tasks[task].sum += r.score;
+  }
+
+  const byTask: Record<string, TaskScore> = {};
+  const byCategory: Record<string, CategoryScore> = {};
+  const taskMeans: Record<string, number[]> = {};
+  for (const [task, t] of Object.entries(tasks)) {
+    const category = categoryOf(task, config);
+    const avgScore = t.sum / t.tests;
+    byTask[task] = { tests: t.tests, avgScore, category };
+    byCategory[category] ??= {
+      weight: config.categories[category]?.weight ?? 0,
+      tests: 0,
+      avgScore: 0,
+      tasks: [],
+    };
+    byCategory[category].tests += t.tests;
+    byCategory[category].tasks.push(task);
+    (taskMeans[category] ??= []).push(avgScore);
+  }
+
+  let weighted = 0;
+  let weightSum = 0;
+  for (const [name, c] of Object.entries(byCategory)) {
+    const means = taskMeans[name] ?? [];
+    c.avgScore = means.reduce((a, b) => a + b, 0) / (means.length || 1);
+    c.tasks.sort();
+    weighted += c.weight * c.avgScore;
+    weightSum += c.weight;
+  }
+
+  return {
+    score: weightSum > 0 ? (100 * weighted) / weightSum : 0,
+    byTask,
+    byCategory,
+  };
+}
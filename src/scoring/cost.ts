@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { TestResult } from "../core/runner";
+
+// USD per million tokens, as providers list them
+export const PricingSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+});
+
+export type Pricing = z.infer<typeof PricingSchema>;
+
+/** Tokens spent by one or more calls; `cost` (USD) only when priced. */
+export type TokenUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  cost?: number;
+};
+
+/** Spend caps for a run; work stops being scheduled once one is reached. */
+export type Budget = { usd?: number; tokens?: number };
+
+/**
+ * What one call spent. Responses served from the cache cost nothing this
+ * run, so they report no usage.
+ */
+export function callUsage(
+  usage: { input_tokens?: number; output_tokens?: number } | undefined,
+  pricing: Pricing | undefined,
+  cached?: boolean
+): TokenUsage | undefined {
+  if (!usage || cached) return undefined;
+  const input_tokens = usage.input_tokens ?? 0;
+  const output_tokens = usage.output_tokens ?? 0;
+  return {
+    input_tokens,
+    output_tokens,
+    ...(pricing
+      ? {
+          cost:
+            (input_tokens * pricing.input + output_tokens * pricing.output) /
+            1e6,
+        }
+      : {}),
+  };
+}
+
+// Sum of the given usages; cost is kept when any of them is priced
+export function addUsage(
+  ...list: (TokenUsage | undefined)[]
+): TokenUsage | undefined {
+  const present = list.filter((u): u is TokenUsage => u !== undefined);
+  if (!present.length) return undefined;
+  const priced = present.filter((u) => u.cost !== undefined);
+  return {
+    input_tokens: present.reduce((acc, u) => acc + u.input_tokens, 0),
+    output_tokens: present.reduce((acc, u) => acc + u.output_tokens, 0),
+    ...(priced.length
+      ? { cost: priced.reduce((acc, u) => acc + u.cost!, 0) }
+      : {}),
+  };
+}
+
+export function totalTokens(u?: TokenUsage): number {
+  return u ? u.input_tokens + u.output_tokens : 0;
+}
+
+/** Model and judge spend of a run, split by model and by task. */
+export type UsageSummary = {
+  total?: TokenUsage;
+  // Judge calls, across every model's answers
+  judge?: TokenUsage;
+  // Calls to each benchmarked model (judging excluded)
+  byModel: Record<string, TokenUsage>;
+  // Model and judge calls for each task
+  byTask: Record<string, TokenUsage>;
+};
+
+export function summarizeUsage(results: TestResult[]): UsageSummary {
+  const byModel: Record<string, TokenUsage> = {};
+  const byTask: Record<string, TokenUsage> = {};
+  let judge: TokenUsage | undefined;
+  for (const r of results) {
+    if (r.usage) byModel[r.model] = addUsage(byModel[r.model], r.usage)!;
+    judge = addUsage(judge, r.judgeUsage);
+    const task = r.task ?? "unknown";
+    const spent = addUsage(r.usage, r.judgeUsage);
+    if (spent) byTask[task] = addUsage(byTask[task], spent)!;
+  }
+  return {
+    total: addUsage(...Object.values(byModel), judge),
+    judge,
+    byModel,
+    byTask,
+  };
+}
+
+// "$0.0123"; small amounts keep more digits
+export function formatUsd(v: number): string {
+  return `$${v < 1 ? v.toFixed(4) : v.toFixed(2)}`;
+}
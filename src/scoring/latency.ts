@@ -0,0 +1,91 @@
+import type { TestResult } from "../core/runner";
+import { mean } from "./stats";
+
+/** How one call was served, beyond its `latencyMs`. */
+export type CallTiming = {
+  // Request sent -> first content token; only when streamed
+  ttftMs?: number;
+  // Output tokens per second of generation (after the first token when
+  // streamed); needs usage from the provider
+  tokensPerSec?: number;
+  // Failed attempts before this one (429s and 5xx)
+  retries: number;
+};
+
+export type Percentiles = { p50: number; p90: number; p99: number };
+
+/** Responsiveness of one model over its uncached, successful calls. */
+export type LatencyStats = {
+  calls: number;
+  latencyMs: Percentiles;
+  ttftMs?: Percentiles;
+  tokensPerSec?: Percentiles;
+  // Retries across every call, failed ones included
+  retries: number;
+};
+
+// Timing of one answered call; `latencyMs` is that attempt alone
+export function callTiming(
+  latencyMs: number,
+  retries: number,
+  ttftMs?: number,
+  outputTokens?: number
+): CallTiming {
+  const generationMs = ttftMs !== undefined ? latencyMs - ttftMs : latencyMs;
+  return {
+    ...(ttftMs !== undefined ? { ttftMs } : {}),
+    ...(outputTokens && generationMs > 0
+      ? { tokensPerSec: outputTokens / (generationMs / 1000) }
+      : {}),
+    retries,
+  };
+}
+
+// One timing for calls merged into a result: means, retries summed
+export function mergeTimings(
+  list: (CallTiming | undefined)[]
+): CallTiming | undefined {
+  const present = list.filter((t): t is CallTiming => t !== undefined);
+  if (!present.length) return undefined;
+  const avg = (values: (number | undefined)[]) => {
+    const known = values.filter((v): v is number => v !== undefined);
+    return known.length ? mean(known) : undefined;
+  };
+  const ttftMs = avg(present.map((t) => t.ttftMs));
+  const tokensPerSec = avg(present.map((t) => t.tokensPerSec));
+  return {
+    ...(ttftMs !== undefined ? { ttftMs: Math.round(ttftMs) } : {}),
+    ...(tokensPerSec !== undefined ? { tokensPerSec } : {}),
+    retries: present.reduce((acc, t) => acc + t.retries, 0),
+  };
+}
+
+export function computeLatencyStats(
+  results: TestResult[]
+): LatencyStats | undefined {
+  // Each sample is its own call; cached calls say nothing about the model
+  const calls = results.flatMap((r) => r.samples ?? [r]);
+  const served = calls.filter((c) => !c.error && !c.cached && c.timing);
+  if (!served.length) return undefined;
+  const ttft = served.flatMap((c) =>
+    c.timing!.ttftMs !== undefined ? [c.timing!.ttftMs] : []
+  );
+  const rates = served.flatMap((c) =>
+    c.timing!.tokensPerSec !== undefined ? [c.timing!.tokensPerSec] : []
+  );
+  return {
+    calls: served.length,
+    latencyMs: percentiles(served.map((c) => c.latencyMs)),
+    ...(ttft.length ? { ttftMs: percentiles(ttft) } : {}),
+    ...(rates.length ? { tokensPerSec: percentiles(rates) } : {}),
+    retries: calls.reduce((acc, c) => acc + (c.timing?.retries ?? 0), 0),
+  };
+}
+
+// Nearest-rank percentiles
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) =>
+    sorted[Math.max(0, Math.ceil(q * sorted.length) - 1)]!;
+  return { p50: at(0.5), p90: at(0.9), p99: at(0.99) };
+}
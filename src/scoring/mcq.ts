@@ -0,0 +1,78 @@
+import type { TestResult } from "../core/runner";
+import { mcqChoices, type McqChoice } from "../eval/strategies/mcq";
+
+/** How a model answers multiple-choice items, beyond its score. */
+export type McqStats = {
+  items: number;
+  calls: number;
+  // Share of permuted item passes answered with the same option under
+  // every order; undefined when nothing was permuted
+  consistency?: number;
+  unparsed: number; // share of calls whose answer could not be read
+  // Per displayed letter: share of parsed calls picking it, and share whose
+  // correct option sat there
+  positions: Record<string, { chosen: number; correct: number }>;
+  // Total variation distance between the two: 0 when picks follow the
+  // answers, 1 when they never do
+  positionBias: number;
+};
+
+export function computeMcqStats(results: TestResult[]): McqStats | undefined {
+  const items = results.filter((r) => passes(r).some((p) => p.length));
+  if (!items.length) return undefined;
+  const allPasses = items.flatMap(passes).filter((p) => p.length);
+  const calls = allPasses.flat();
+  const parsed = calls.filter((c) => c.position !== null);
+  const permuted = allPasses.filter((p) => p.length > 1);
+
+  const chosen: Record<string, number> = {};
+  const correct: Record<string, number> = {};
+  for (const c of parsed) {
+    const picked = letter(c.position!);
+    const right = letter(c.order.indexOf(c.answer));
+    chosen[picked] = (chosen[picked] ?? 0) + 1;
+    correct[right] = (correct[right] ?? 0) + 1;
+  }
+  const letters = [
+    ...new Set([...Object.keys(chosen), ...Object.keys(correct)]),
+  ].sort();
+  const positions = Object.fromEntries(
+    letters.map((l) => [
+      l,
+      {
+        chosen: parsed.length ? (chosen[l] ?? 0) / parsed.length : 0,
+        correct: parsed.length ? (correct[l] ?? 0) / parsed.length : 0,
+      },
+    ])
+  );
+  return {
+    items: items.length,
+    calls: calls.length,
+    consistency: permuted.length
+      ? permuted.filter(isConsistent).length / permuted.length
+      : undefined,
+    unparsed: calls.length ? 1 - parsed.length / calls.length : 0,
+    positions,
+    positionBias:
+      Object.values(positions).reduce(
+        (acc, p) => acc + Math.abs(p.chosen - p.correct),
+        0
+      ) / 2,
+  };
+}
+
+// Choices per sample pass of a result (one list per sample)
+function passes(r: TestResult): McqChoice[][] {
+  return r.samples?.length
+    ? r.samples.map((s) => mcqChoices(s.details))
+    : [mcqChoices(r.details)];
+}
+
+function isConsistent(pass: McqChoice[]): boolean {
+  const first = pass[0]?.chosen ?? null;
+  return first !== null && pass.every((c) => c.chosen === first);
+}
+
+function letter(position: number): string {
+  return String.fromCharCode(65 + position);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import type { TestResult } from "../core/runner";
+import { bootstrapCI, computeStats, passAtK } from "./stats";
+
+describe("passAtK", () => {
+  test("is the pass rate at k = 1", () => {
+    expect(passAtK(4, 1, 1)).toBeCloseTo(0.25);
+    expect(passAtK(5, 0, 1)).toBe(0);
+  });
+
+  test("matches 1 - C(n-c, k) / C(n, k)", () => {
+    // 1 - C(3, 2) / C(5, 2) = 1 - 3/10
+    expect(passAtK(5, 2, 2)).toBeCloseTo(0.7);
+  });
+
+  test("is 1 once every draw must include a pass", () => {
+    expect(passAtK(5, 4, 2)).toBe(1);
+  });
+
+  test("caps k at n and is 0 with no samples", () => {
+    expect(passAtK(3, 1, 10)).toBe(1);
+    expect(passAtK(0, 0, 1)).toBe(0);
+  });
+});
+
+describe("bootstrapCI", () => {
+  test("collapses for zero or one value", () => {
+    expect(bootstrapCI([])).toEqual([0, 0]);
+    expect(bootstrapCI([0.4])).toEqual([0.4, 0.4]);
+  });
+
+  test("brackets the mean and is reproducible for a seed", () => {
+    const values = [0, 0.2, 0.5, 0.5, 0.8, 1, 1, 0.3];
+    const [lo, hi] = bootstrapCI(values, { seed: 7 });
+    expect(lo).toBeLessThan(0.5375);
+    expect(hi).toBeGreaterThan(0.5375);
+    expect(lo).toBeGreaterThanOrEqual(0);
+    expect(hi).toBeLessThanOrEqual(1);
+    expect(bootstrapCI(values, { seed: 7 })).toEqual([lo, hi]);
+  });
+
+  test("narrows with lower confidence", () => {
+    const values = [0, 1, 0, 1, 1, 0, 1, 0, 0, 1];
+    const [lo95, hi95] = bootstrapCI(values);
+    const [lo50, hi50] = bootstrapCI(values, { confidence: 0.5 });
+    expect(hi50 - lo50).toBeLessThan(hi95 - lo95);
+  });
+});
+
+describe("computeStats", () => {
+  const result = (scores: number[]): TestResult => ({
+    testId: `t${scores.join("")}`,
+    model: "m",
+    provider_id: "p",
+    prompt: "",
+    response: "",
+    score: scores.reduce((a, b) => a + b, 0) / scores.length,
+    latencyMs: 0,
+    samples: scores.map((score) => ({ response: "", score, latencyMs: 0 })),
+  });
+
+  test("reports pass@1 and pass@k over samples", () => {
+    const stats = computeStats([result([1, 0]), result([0, 0])]);
+    expect(stats).toMatchObject({ tests: 2, samples: 2, mean: 0.25 });
+    expect(stats.passAt1).toBeCloseTo(0.25);
+    expect(stats.passAtK).toBeCloseTo(0.5);
+    // Sample passes average 0.5 and 0
+    expect(stats.std).toBeCloseTo(Math.SQRT1_2 / 2);
+  });
+
+  test("counts partial scores as passes from the threshold", () => {
+    const stats = computeStats([result([0.6, 0.4])], { passThreshold: 0.5 });
+    expect(stats.passAt1).toBeCloseTo(0.5);
+  });
+});
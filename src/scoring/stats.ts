@@ -0,0 +1,126 @@
+import type { TestResult } from "../core/runner";
+
+/** Spread and pass rates for one group of results (a model, or a model's task). */
+export type ScoreStats = {
+  tests: number;
+  samples: number; // samples per test (the largest seen)
+  mean: number;
+  // Standard deviation of the group mean across sample passes (0 for 1 sample)
+  std: number;
+  // Bootstrap 95% interval of the mean, resampling tests
+  ci95: [number, number];
+  passAt1: number;
+  passAtK: number; // k = samples
+};
+
+export type StatsOptions = {
+  // A sample passes when its score is at or above this (default 1)
+  passThreshold?: number;
+  iterations?: number; // bootstrap resamples (default 1000)
+  seed?: number;
+};
+
+// Per-sample scores of a result; single-call results count as one sample
+export function sampleScores(r: TestResult): number[] {
+  return r.samples?.length ? r.samples.map((s) => s.score) : [r.score];
+}
+
+export function computeStats(
+  results: TestResult[],
+  opts?: StatsOptions
+): ScoreStats {
+  const threshold = opts?.passThreshold ?? 1;
+  const perTest = results.map(sampleScores);
+  const samples = Math.max(0, ...perTest.map((s) => s.length));
+  const means = perTest.map(mean);
+
+  // Mean over tests of the i-th sample, one value per sample pass
+  const passMeans: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    const scores = perTest.filter((s) => i < s.length).map((s) => s[i]!);
+    if (scores.length) passMeans.push(mean(scores));
+  }
+
+  const passes = perTest.map((s) => s.filter((x) => x >= threshold).length);
+  return {
+    tests: results.length,
+    samples,
+    mean: mean(means),
+    std: stdDev(passMeans),
+    ci95: bootstrapCI(means, {
+      iterations: opts?.iterations,
+      seed: opts?.seed,
+    }),
+    passAt1: mean(perTest.map((s, i) => passAtK(s.length, passes[i]!, 1))),
+    passAtK: mean(
+      perTest.map((s, i) => passAtK(s.length, passes[i]!, samples))
+    ),
+  };
+}
+
+export function mean(values: number[]): number {
+  return values.length
+    ? values.reduce((acc, v) => acc + v, 0) / values.length
+    : 0;
+}
+
+// Sample standard deviation (n - 1); 0 for fewer than two values
+export function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const ss = values.reduce((acc, v) => acc + (v - m) ** 2, 0);
+  return Math.sqrt(ss / (values.length - 1));
+}
+
+/**
+ * Unbiased pass@k (Chen et al. 2021): the chance that at least one of k
+ * samples drawn from n, of which c passed, passes. k is capped at n.
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n === 0) return 0;
+  const kk = Math.min(k, n);
+  if (n - c < kk) return 1;
+  // 1 - C(n-c, k) / C(n, k), as a running product
+  let fail = 1;
+  for (let i = n - c + 1; i <= n; i++) fail *= 1 - kk / i;
+  return 1 - fail;
+}
+
+/**
+ * Percentile bootstrap interval of the mean. Seeded so reports are
+ * reproducible.
+ */
+export function bootstrapCI(
+  values: number[],
+  opts?: { iterations?: number; confidence?: number; seed?: number }
+): [number, number] {
+  if (values.length === 0) return [0, 0];
+  if (values.length === 1) return [values[0]!, values[0]!];
+  const iterations = opts?.iterations ?? 1000;
+  const alpha = (1 - (opts?.confidence ?? 0.95)) / 2;
+  const rand = mulberry32(opts?.seed ?? 1);
+  const means: number[] = [];
+  for (let b = 0; b < iterations; b++) {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[Math.floor(rand() * values.length)]!;
+    }
+    means.push(sum / values.length);
+  }
+  means.sort((a, b) => a - b);
+  const at = (q: number) =>
+    means[Math.min(iterations - 1, Math.max(0, Math.floor(q * iterations)))]!;
+  return [at(alpha), at(1 - alpha)];
+}
+
+// Small seedable PRNG in [0, 1)
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}